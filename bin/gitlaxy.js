@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+
+/**
+ * Gitlaxy CLI - serve the built app pointed at any repository on disk
+ *
+ * Usage: gitlaxy [repo-path] [--port <port>] [--no-open]
+ */
+
+import { existsSync, statSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const APP_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const DEFAULT_PORT = 4173;
+
+function printUsage() {
+  console.log('Usage: gitlaxy [repo-path] [--port <port>] [--no-open]');
+  console.log('');
+  console.log('  repo-path    Repository to visualize (defaults to the current directory)');
+  console.log(`  --port       Port to serve on (default ${DEFAULT_PORT})`);
+  console.log('  --no-open    Do not open a browser window');
+}
+
+function parseArgs(argv) {
+  const options = { repoPath: process.cwd(), port: DEFAULT_PORT, open: true };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--help' || arg === '-h') {
+      printUsage();
+      process.exit(0);
+    } else if (arg === '--port' || arg === '-p') {
+      options.port = parseInt(argv[++i], 10);
+    } else if (arg === '--no-open') {
+      options.open = false;
+    } else if (arg.startsWith('-')) {
+      console.error(`Unknown option: ${arg}`);
+      printUsage();
+      process.exit(1);
+    } else {
+      options.repoPath = path.resolve(arg);
+    }
+  }
+
+  if (!Number.isInteger(options.port) || options.port <= 0) {
+    console.error('--port must be a positive number');
+    process.exit(1);
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (!existsSync(options.repoPath) || !statSync(options.repoPath).isDirectory()) {
+    console.error(`Not a directory: ${options.repoPath}`);
+    process.exit(1);
+  }
+
+  // Read by server/repoRoot.ts when vite.config.ts loads
+  process.env.GITLAXY_ROOT = options.repoPath;
+
+  const { build, preview } = await import('vite');
+
+  if (!existsSync(path.join(APP_ROOT, 'dist', 'index.html'))) {
+    console.log('🔨 Building Gitlaxy (first run)...');
+    await build({ root: APP_ROOT, logLevel: 'warn' });
+  }
+
+  const server = await preview({
+    root: APP_ROOT,
+    preview: { port: options.port, open: options.open },
+  });
+
+  console.log(`🌌 Gitlaxy is exploring ${options.repoPath}`);
+  server.printUrls();
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,124 @@
+// Per-file metrics the galaxy can map onto planets: line counts and a rough
+// complexity read from the working tree, commit and author counts from history
+import fs from 'fs/promises'
+import path from 'path'
+import type { FileMetrics } from '../src/types'
+import { runGit } from './git'
+import { buildRepoTree, collectFilePaths } from './repoTree'
+import { looksBinary } from './safePaths'
+
+// Larger files are counted as empty rather than read
+const MAX_SOURCE_BYTES = 1024 * 1024
+
+// Files read at once, to stay clear of the open file limit
+const READ_BATCH_SIZE = 64
+
+// Newest commits counted; reading all of a very long history is slow
+const MAX_HISTORY_COMMITS = 10000
+
+const RECORD_SEPARATOR = '\x1e'
+
+// Files whose decision points count as complexity
+const CODE_EXTENSIONS = new Set([
+  'ts', 'tsx', 'mts', 'cts', 'js', 'jsx', 'mjs', 'cjs', 'py', 'go', 'rs', 'java', 'kt',
+  'c', 'h', 'cpp', 'hpp', 'cc', 'cs', 'rb', 'php', 'swift', 'scala',
+])
+
+// Branches, loops, handlers and short-circuits, close to cyclomatic complexity
+const DECISION_PATTERN = /\b(?:if|elif|for|foreach|while|case|catch|except)\b|&&|\|\||\?\?/g
+
+type ContentMetrics = Pick<FileMetrics, 'lines' | 'complexity'>
+type HistoryMetrics = Pick<FileMetrics, 'commits' | 'authors'>
+
+// Content metrics per absolute path, reused while the file is unchanged
+const contentCache = new Map<string, { mtimeMs: number; size: number; metrics: ContentMetrics }>()
+
+// History metrics for the last repository and HEAD they were read at
+let historyCache: { key: string; metrics: Map<string, HistoryMetrics> } | null = null
+
+async function readContentMetrics(absPath: string): Promise<ContentMetrics> {
+  const stats = await fs.stat(absPath)
+  if (stats.size > MAX_SOURCE_BYTES) return { lines: 0, complexity: 0 }
+
+  const cached = contentCache.get(absPath)
+  if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) return cached.metrics
+
+  const data = await fs.readFile(absPath)
+  let metrics: ContentMetrics = { lines: 0, complexity: 0 }
+  if (!looksBinary(data)) {
+    const source = data.toString('utf-8')
+    const isCode = CODE_EXTENSIONS.has(path.extname(absPath).slice(1).toLowerCase())
+    metrics = {
+      lines: source.split('\n').filter((line) => line.trim()).length,
+      complexity: isCode ? (source.match(DECISION_PATTERN)?.length ?? 0) + 1 : 0,
+    }
+  }
+
+  contentCache.set(absPath, { mtimeMs: stats.mtimeMs, size: stats.size, metrics })
+  return metrics
+}
+
+// Commits and authors per repo path, from `git log --name-only`
+async function readHistoryMetrics(rootDir: string): Promise<Map<string, HistoryMetrics>> {
+  let head: string
+  try {
+    head = (await runGit(['rev-parse', 'HEAD'], rootDir)).trim()
+  } catch {
+    return new Map() // Not a repository, or no commits yet
+  }
+
+  const key = `${rootDir}\n${head}`
+  if (historyCache?.key === key) return historyCache.metrics
+
+  // Paths relative to rootDir, which may be a subfolder of the work tree
+  const output = await runGit([
+    '-c', 'core.quotepath=off',
+    'log', `--max-count=${MAX_HISTORY_COMMITS}`, '--no-renames', '--relative', `--format=${RECORD_SEPARATOR}%aE`,
+    '--name-only', '--', '.',
+  ], rootDir)
+
+  const commits = new Map<string, number>()
+  const authors = new Map<string, Set<string>>()
+  for (const record of output.split(RECORD_SEPARATOR)) {
+    const [author, ...files] = record.split('\n')
+    for (const file of files) {
+      if (!file) continue
+      const repoPath = '/' + file
+      commits.set(repoPath, (commits.get(repoPath) ?? 0) + 1)
+      if (!authors.has(repoPath)) authors.set(repoPath, new Set())
+      authors.get(repoPath)!.add(author.toLowerCase())
+    }
+  }
+
+  const metrics = new Map<string, HistoryMetrics>()
+  for (const [repoPath, count] of commits) {
+    metrics.set(repoPath, { commits: count, authors: authors.get(repoPath)!.size })
+  }
+  historyCache = { key, metrics }
+  return metrics
+}
+
+/**
+ * Metrics for every file the galaxy shows (per the ignore rules), keyed by repo
+ * path. Outside a git repository the history counts are all 0.
+ */
+export async function readFileMetrics(rootDir: string): Promise<Record<string, FileMetrics>> {
+  const [paths, history] = await Promise.all([
+    buildRepoTree(rootDir).then(collectFilePaths),
+    readHistoryMetrics(rootDir),
+  ])
+
+  const metrics: Record<string, FileMetrics> = {}
+  for (let i = 0; i < paths.length; i += READ_BATCH_SIZE) {
+    await Promise.all(paths.slice(i, i + READ_BATCH_SIZE).map(async (repoPath) => {
+      let content: ContentMetrics
+      try {
+        content = await readContentMetrics(path.join(rootDir, repoPath))
+      } catch {
+        return // Vanished or unreadable since the walk
+      }
+      metrics[repoPath] = { ...content, ...(history.get(repoPath) ?? { commits: 0, authors: 0 }) }
+    }))
+  }
+  return metrics
+}
@@ -0,0 +1,21 @@
+// Version tokens for optimistic-concurrency saves
+import { createHash } from 'crypto'
+import fs from 'fs/promises'
+
+// mtime catches a rewrite even when the bytes match; the hash catches edits
+// landing within the filesystem's mtime resolution
+export function computeFileVersion(mtimeMs: number, content: Buffer | string): string {
+  const hash = createHash('sha1').update(content).digest('hex').slice(0, 16)
+  return `${Math.floor(mtimeMs)}-${hash}`
+}
+
+// Current version of a file on disk, or null when it doesn't exist
+export async function readFileVersion(absPath: string): Promise<string | null> {
+  try {
+    const [stats, content] = await Promise.all([fs.stat(absPath), fs.readFile(absPath)])
+    return computeFileVersion(stats.mtimeMs, content)
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw err
+  }
+}
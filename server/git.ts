@@ -0,0 +1,17 @@
+// Thin wrapper around the git CLI for the dev-server API plugins
+import { execFile } from 'child_process'
+
+// Large logs and diffs easily exceed Node's 1 MB default
+const MAX_GIT_OUTPUT = 256 * 1024 * 1024
+
+export function runGit(args: string[], cwd: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, maxBuffer: MAX_GIT_OUTPUT, encoding: 'utf-8' }, (err, stdout, stderr) => {
+      if (err) {
+        reject(new Error(stderr.trim() || err.message))
+        return
+      }
+      resolve(stdout)
+    })
+  })
+}
@@ -0,0 +1,68 @@
+// Per-line authorship via `git blame --porcelain`
+import path from 'path'
+import type { BlameCommit, FileBlame } from '../src/types'
+import { runGit } from './git'
+
+// Porcelain output gives a header per line ("<hash> <orig> <final> [<count>]"),
+// followed by commit details the first time a commit appears, then the line itself
+// prefixed with a tab.
+export function parseBlame(output: string): FileBlame {
+  const commits: Record<string, BlameCommit> = {}
+  const lines: string[] = []
+  let current: BlameCommit | null = null
+
+  for (const line of output.split('\n')) {
+    if (line.startsWith('\t')) {
+      if (current) lines.push(current.hash)
+      continue
+    }
+
+    const header = line.match(/^([0-9a-f]{40}) \d+ \d+/)
+    if (header) {
+      const hash = header[1]
+      current = commits[hash] ??= {
+        hash,
+        shortHash: hash.slice(0, 7),
+        author: '',
+        email: '',
+        date: new Date(0),
+        summary: '',
+      }
+      continue
+    }
+
+    if (!current) continue
+    const space = line.indexOf(' ')
+    const key = space === -1 ? line : line.slice(0, space)
+    const value = space === -1 ? '' : line.slice(space + 1)
+    switch (key) {
+      case 'author':
+        current.author = value
+        break
+      case 'author-mail':
+        current.email = value.replace(/^<|>$/g, '')
+        break
+      case 'author-time':
+        current.date = new Date(parseInt(value, 10) * 1000)
+        break
+      case 'summary':
+        current.summary = value
+        break
+    }
+  }
+
+  return { commits, lines }
+}
+
+// Blame for the file as it is on disk (uncommitted lines get the all-zero hash);
+// untracked files have no blame
+export async function readBlame(repoDir: string, relativePath: string): Promise<FileBlame> {
+  const gitPath = './' + relativePath.split(path.sep).join('/')
+  let output: string
+  try {
+    output = await runGit(['blame', '--porcelain', '--', gitPath], repoDir)
+  } catch {
+    return { commits: {}, lines: [] }
+  }
+  return parseBlame(output)
+}
@@ -0,0 +1,75 @@
+// Lists local and remote branches and switches between them
+import type { GitBranch } from '../src/types'
+import { runGit } from './git'
+import { ApiError } from './http'
+
+const FIELD_SEPARATOR = '\x1f'
+const BRANCH_FORMAT = ['%(refname)', '%(refname:short)', '%(objectname)', '%(upstream:short)', '%(HEAD)', '%(committerdate:iso-strict)']
+  .join('%1f')
+
+export async function listBranches(repoDir: string): Promise<GitBranch[]> {
+  const output = await runGit(
+    ['for-each-ref', `--format=${BRANCH_FORMAT}`, '--sort=-committerdate', 'refs/heads', 'refs/remotes'],
+    repoDir
+  )
+
+  const branches: GitBranch[] = []
+  for (const line of output.split('\n')) {
+    const [ref, name, hash, upstream, head, date] = line.split(FIELD_SEPARATOR)
+    if (!ref) continue
+
+    const isRemote = ref.startsWith('refs/remotes/')
+    // "origin/HEAD" is a pointer to the remote's default branch, not a branch
+    if (isRemote && ref.endsWith('/HEAD')) continue
+
+    branches.push({
+      name,
+      hash,
+      isRemote,
+      isCurrent: head === '*',
+      ...(upstream ? { upstream } : {}),
+      date: new Date(date),
+    })
+  }
+  return branches
+}
+
+// Uncommitted changes to tracked files; untracked files don't block a checkout
+async function hasTrackedChanges(repoDir: string): Promise<boolean> {
+  const output = await runGit(['status', '--porcelain', '--untracked-files=no'], repoDir)
+  return output.trim().length > 0
+}
+
+/**
+ * Check out a branch by name. Remote branches get a local tracking branch of the
+ * same short name (or reuse one that already exists). Refuses with 409 when
+ * tracked files have uncommitted changes, so nothing is ever carried over or lost.
+ */
+export async function checkoutBranch(repoDir: string, name: string): Promise<void> {
+  const branch = (await listBranches(repoDir)).find((candidate) => candidate.name === name)
+  if (!branch) {
+    throw new ApiError(404, 'NOT_FOUND', `Unknown branch: ${name}`)
+  }
+  if (branch.isCurrent) return
+
+  if (await hasTrackedChanges(repoDir)) {
+    throw new ApiError(409, 'DIRTY_WORKTREE', 'Commit or stash your changes before switching branches')
+  }
+
+  // `git switch` only ever moves between branches; `checkout` would take a name
+  // matching a path as a file checkout and throw away its changes
+  try {
+    if (branch.isRemote) {
+      const localName = name.slice(name.indexOf('/') + 1)
+      const localExists = (await listBranches(repoDir)).some((candidate) => !candidate.isRemote && candidate.name === localName)
+      await runGit(
+        localExists ? ['switch', '--', localName] : ['switch', '--create', localName, '--track', '--', name],
+        repoDir
+      )
+    } else {
+      await runGit(['switch', '--', name], repoDir)
+    }
+  } catch (err) {
+    throw new ApiError(409, 'CHECKOUT_FAILED', (err as Error).message)
+  }
+}
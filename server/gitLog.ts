@@ -0,0 +1,166 @@
+// Reads commit history with `git log` and converts it into GitCommit objects
+import type { CommitFile, GitCommit } from '../src/types'
+import { runGit } from './git'
+
+// ASCII record/unit separators keep commit headers unambiguous in the log output
+const RECORD_SEPARATOR = '\x1e'
+const FIELD_SEPARATOR = '\x1f'
+const LOG_FORMAT = ['%H', '%h', '%an', '%ae', '%aI', '%s'].join('%x1f')
+
+export interface CommitPage {
+  commits: GitCommit[]
+  total: number
+  hasMore: boolean
+}
+
+function toRepoPath(gitPath: string): string {
+  return '/' + gitPath
+}
+
+function mapStatus(letter: string): CommitFile['status'] {
+  switch (letter) {
+    case 'A':
+    case 'C':
+      return 'added'
+    case 'D':
+      return 'deleted'
+    case 'R':
+      return 'renamed'
+    default:
+      return 'modified'
+  }
+}
+
+// Parse the `--raw --numstat -z` body of one commit. Raw entries give the status
+// (and rename source), numstat entries give line counts; both are keyed by the new path.
+function parseCommitFiles(tokens: string[]): CommitFile[] {
+  const files = new Map<string, CommitFile>()
+  let i = 0
+
+  while (i < tokens.length) {
+    const token = tokens[i++].replace(/^\n/, '')
+    if (!token) continue
+
+    if (token.startsWith(':')) {
+      const statusLetter = token.split(' ').pop()!.charAt(0)
+      const hasTwoPaths = statusLetter === 'R' || statusLetter === 'C'
+      const oldPath = hasTwoPaths ? tokens[i++] : undefined
+      const newPath = tokens[i++]
+
+      files.set(newPath, {
+        path: toRepoPath(newPath),
+        status: mapStatus(statusLetter),
+        ...(statusLetter === 'R' && oldPath ? { oldPath: toRepoPath(oldPath) } : {}),
+        additions: 0,
+        deletions: 0,
+      })
+      continue
+    }
+
+    const match = token.match(/^(\d+|-)\t(\d+|-)\t(.*)$/)
+    if (!match) continue
+
+    // Renames put an empty path here followed by the old and new paths
+    let newPath = match[3]
+    if (!newPath) {
+      i++
+      newPath = tokens[i++]
+    }
+
+    const file = files.get(newPath)
+    if (file) {
+      // Binary files report "-" for both counts
+      file.additions = match[1] === '-' ? 0 : parseInt(match[1], 10)
+      file.deletions = match[2] === '-' ? 0 : parseInt(match[2], 10)
+    }
+  }
+
+  return Array.from(files.values())
+}
+
+function parseCommit(record: string): GitCommit | null {
+  const tokens = record.split('\0')
+  const header = tokens.shift()
+  if (!header) return null
+
+  const [hash, shortHash, author, email, date, message] = header.split(FIELD_SEPARATOR)
+  if (!hash) return null
+
+  return {
+    hash,
+    shortHash,
+    message,
+    author,
+    email,
+    date: new Date(date),
+    files: parseCommitFiles(tokens),
+  }
+}
+
+export function parseGitLog(output: string): GitCommit[] {
+  return output
+    .split(RECORD_SEPARATOR)
+    .map(parseCommit)
+    .filter((commit): commit is GitCommit => commit !== null)
+}
+
+// Load one page of history, newest first. Like readRevisionDiff, only commits
+// touching repoDir count, with paths relative to it, so they match the tree
+// when repoDir is a subfolder of the work tree.
+export async function readCommitPage(repoDir: string, skip: number, limit: number): Promise<CommitPage> {
+  const [countOutput, logOutput] = await Promise.all([
+    runGit(['rev-list', '--count', 'HEAD', '--', '.'], repoDir),
+    runGit([
+      'log',
+      '-M',
+      '--raw',
+      '--numstat',
+      '-z',
+      '--relative',
+      `--format=${RECORD_SEPARATOR}${LOG_FORMAT}`,
+      `--skip=${skip}`,
+      `--max-count=${limit}`,
+      '--',
+      '.',
+    ], repoDir),
+  ])
+
+  const total = parseInt(countOutput.trim(), 10) || 0
+  const commits = parseGitLog(logOutput)
+
+  return {
+    commits,
+    total,
+    hasMore: skip + commits.length < total,
+  }
+}
+
+// A single commit by revision, whichever paths it touches. Its files are still
+// limited to repoDir, with paths relative to it.
+export async function readCommit(repoDir: string, revision: string): Promise<GitCommit> {
+  const output = await runGit([
+    'log',
+    '-1',
+    '-M',
+    '--raw',
+    '--numstat',
+    '-z',
+    '--relative',
+    `--format=${RECORD_SEPARATOR}${LOG_FORMAT}`,
+    revision,
+  ], repoDir)
+
+  const [commit] = parseGitLog(output)
+  if (!commit) throw new Error(`Could not read commit ${revision}`)
+  return commit
+}
+
+// Files changed between two commits, with line counts. `--relative` keeps paths
+// (and the diff itself) within repoDir when it's a subfolder of the work tree.
+export async function readRevisionDiff(repoDir: string, baseHash: string, headHash: string): Promise<CommitFile[]> {
+  const output = await runGit(
+    ['diff', '-M', '--raw', '--numstat', '-z', '--relative', baseHash, headHash],
+    repoDir
+  )
+  return parseCommitFiles(output.split('\0'))
+}
@@ -0,0 +1,38 @@
+// Reads file contents as they were at a given revision
+import path from 'path'
+import { runGit } from './git'
+import { ApiError } from './http'
+import { looksBinary } from './safePaths'
+
+export interface RevisionFile {
+  exists: boolean // false when the file isn't in that revision (new, or no commits yet)
+  content: string
+}
+
+// relativePath is relative to repoDir, which may itself be a subfolder of the work tree
+export async function readFileAtRevision(
+  repoDir: string,
+  revision: string,
+  relativePath: string,
+  maxBytes: number
+): Promise<RevisionFile> {
+  // "./" makes git resolve the path against repoDir instead of the top level
+  const spec = `${revision}:./${relativePath.split(path.sep).join('/')}`
+
+  let size: number
+  try {
+    size = parseInt(await runGit(['cat-file', '-s', spec], repoDir), 10)
+  } catch {
+    return { exists: false, content: '' }
+  }
+
+  if (size > maxBytes) {
+    throw new ApiError(413, 'FILE_TOO_LARGE', `File is ${size} bytes at ${revision}; the limit is ${maxBytes}`)
+  }
+
+  const content = await runGit(['cat-file', 'blob', spec], repoDir)
+  if (looksBinary(content)) {
+    throw new ApiError(415, 'BINARY_FILE', 'Binary files cannot be diffed')
+  }
+  return { exists: true, content }
+}
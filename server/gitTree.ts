@@ -0,0 +1,111 @@
+// Builds the FolderNode tree for a past revision from `git ls-tree`
+import type { FileNode, FolderNode } from '../src/types'
+import { runGit } from './git'
+import { ApiError } from './http'
+import type { IgnoreRules } from './ignoreRules'
+
+export interface RevisionTree {
+  hash: string // Full commit hash the revision resolved to
+  tree: FolderNode
+}
+
+// Branch names, tags, hashes and suffixes like HEAD~3; never anything that parses as an option
+const REVISION_PATTERN = /^[\w./@{}~^-]+$/
+
+export function assertRevision(revision: string): void {
+  if (!revision || revision.startsWith('-') || !REVISION_PATTERN.test(revision)) {
+    throw new ApiError(400, 'INVALID_REQUEST', `Invalid revision: ${revision}`)
+  }
+}
+
+// Resolve a revision to a commit hash, or 404 if it doesn't name one
+export async function resolveCommit(repoDir: string, revision: string): Promise<string> {
+  assertRevision(revision)
+  try {
+    return (await runGit(['rev-parse', '--verify', '--quiet', `${revision}^{commit}`], repoDir)).trim()
+  } catch {
+    throw new ApiError(404, 'NOT_FOUND', `Unknown revision: ${revision}`)
+  }
+}
+
+function getExtension(name: string): string {
+  if (!name.includes('.')) return ''
+  return name.split('.').pop()!.toLowerCase()
+}
+
+// Find or create the folder for `repoPath`, creating parents on the way
+function ensureFolder(root: FolderNode, folders: Map<string, FolderNode>, repoPath: string): FolderNode {
+  const existing = folders.get(repoPath)
+  if (existing) return existing
+
+  const slash = repoPath.lastIndexOf('/')
+  const parent = slash === 0 ? root : ensureFolder(root, folders, repoPath.slice(0, slash))
+  const folder: FolderNode = { id: repoPath, name: repoPath.slice(slash + 1), path: repoPath, type: 'folder', children: [] }
+  parent.children.push(folder)
+  folders.set(repoPath, folder)
+  return folder
+}
+
+function sortTree(folder: FolderNode) {
+  folder.children.sort((a, b) => a.name.localeCompare(b.name))
+  for (const child of folder.children) {
+    if (child.type === 'folder') sortTree(child)
+  }
+}
+
+/**
+ * Read every file committed at a revision. Paths are repo-relative like the live
+ * tree, files carry their blob id so snapshots can be diffed cheaply, and
+ * `lastModified` is the commit date since trees don't record file times.
+ *
+ * @param repoDir - Repository root, which may be a subfolder of the work tree
+ * @param revision - Any revision git understands (hash, branch, tag, HEAD~n)
+ * @param name - Name for the root folder, matching the live tree
+ * @param rules - Ignore rules; only the config's exclude globs apply to committed files
+ */
+export async function readTreeAtRevision(
+  repoDir: string,
+  revision: string,
+  name: string,
+  rules: IgnoreRules
+): Promise<RevisionTree> {
+  const hash = await resolveCommit(repoDir, revision)
+  const [listing, dateOutput] = await Promise.all([
+    // Run from repoDir, ls-tree lists only that folder, with paths relative to it
+    runGit(['ls-tree', '-r', '-l', '-z', hash], repoDir),
+    runGit(['show', '-s', '--format=%cI', hash], repoDir),
+  ])
+  const lastModified = new Date(dateOutput.trim())
+
+  const root: FolderNode = { id: '/', name, path: '/', type: 'folder', children: [] }
+  const folders = new Map<string, FolderNode>([['/', root]])
+
+  for (const entry of listing.split('\0')) {
+    // "<mode> <type> <object> <size>\t<path>"; submodules are "commit" entries with size "-"
+    const tab = entry.indexOf('\t')
+    if (tab === -1) continue
+    const [, type, objectId, size] = entry.slice(0, tab).split(/\s+/)
+    if (type !== 'blob') continue
+
+    const repoPath = '/' + entry.slice(tab + 1)
+    if (rules.isExcluded(repoPath)) continue
+
+    const slash = repoPath.lastIndexOf('/')
+    const parent = slash === 0 ? root : ensureFolder(root, folders, repoPath.slice(0, slash))
+    const fileName = repoPath.slice(slash + 1)
+    const file: FileNode = {
+      id: repoPath,
+      name: fileName,
+      path: repoPath,
+      type: 'file',
+      extension: getExtension(fileName),
+      size: parseInt(size, 10) || 0,
+      lastModified,
+      blob: objectId,
+    }
+    parent.children.push(file)
+  }
+
+  sortTree(root)
+  return { hash, tree: root }
+}
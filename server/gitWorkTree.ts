@@ -0,0 +1,121 @@
+// Working-tree operations: status, staging and committing
+import type { GitCommit, WorkingChangeStatus, WorkingFileStatus } from '../src/types'
+import { runGit } from './git'
+import { readCommit } from './gitLog'
+import { ApiError } from './http'
+
+export interface CommitAuthor {
+  name: string
+  email: string
+}
+
+function mapStatus(letter: string): WorkingChangeStatus | null {
+  switch (letter) {
+    case '.':
+      return null
+    case 'A':
+    case 'C':
+      return 'added'
+    case 'D':
+      return 'deleted'
+    case 'R':
+      return 'renamed'
+    default:
+      return 'modified'
+  }
+}
+
+// Pathspecs taken literally, so names containing * or ? stage only themselves
+function toPathspecs(relativePaths: string[]): string[] {
+  return relativePaths.map((relativePath) => `:(literal)${relativePath || '.'}`)
+}
+
+async function hasHead(repoDir: string): Promise<boolean> {
+  try {
+    await runGit(['rev-parse', '--verify', '--quiet', 'HEAD'], repoDir)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Porcelain v2 reports paths from the top of the work tree; the galaxy is rooted
+// at repoDir, which may be a subfolder, so strip its prefix.
+export async function readWorkingStatus(repoDir: string): Promise<WorkingFileStatus[]> {
+  const prefix = (await runGit(['rev-parse', '--show-prefix'], repoDir)).trim()
+  const output = await runGit(['status', '--porcelain=v2', '-z', '--untracked-files=all', '--', '.'], repoDir)
+  const tokens = output.split('\0')
+  const files: WorkingFileStatus[] = []
+  const toRepoPath = (gitPath: string) => '/' + gitPath.slice(prefix.length)
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+    if (!token) continue
+
+    const fields = token.split(' ')
+    switch (fields[0]) {
+      case '1':
+        files.push({
+          path: toRepoPath(fields.slice(8).join(' ')),
+          staged: mapStatus(fields[1][0]),
+          unstaged: mapStatus(fields[1][1]),
+        })
+        break
+      case '2':
+        // Renames carry the original path in the next NUL-separated token
+        files.push({
+          path: toRepoPath(fields.slice(9).join(' ')),
+          oldPath: toRepoPath(tokens[++i]),
+          staged: mapStatus(fields[1][0]),
+          unstaged: mapStatus(fields[1][1]),
+        })
+        break
+      case 'u':
+        files.push({ path: toRepoPath(fields.slice(10).join(' ')), staged: 'conflicted', unstaged: 'conflicted' })
+        break
+      case '?':
+        files.push({ path: toRepoPath(token.slice(2)), staged: null, unstaged: 'untracked' })
+        break
+    }
+  }
+
+  return files.sort((a, b) => a.path.localeCompare(b.path))
+}
+
+export async function stagePaths(repoDir: string, relativePaths: string[]): Promise<void> {
+  // -A so deletions are staged too
+  await runGit(['add', '-A', '--', ...toPathspecs(relativePaths)], repoDir)
+}
+
+export async function unstagePaths(repoDir: string, relativePaths: string[]): Promise<void> {
+  if (await hasHead(repoDir)) {
+    await runGit(['reset', '-q', 'HEAD', '--', ...toPathspecs(relativePaths)], repoDir)
+  } else {
+    // Nothing to reset to before the first commit - just drop the paths from the index
+    await runGit(['rm', '-r', '-q', '--cached', '--', ...toPathspecs(relativePaths)], repoDir)
+  }
+}
+
+// Commit whatever is staged and return the new commit in GitCommit form
+export async function commitStaged(repoDir: string, message: string, author?: CommitAuthor): Promise<GitCommit> {
+  if (!message.trim()) {
+    throw new ApiError(400, 'INVALID_REQUEST', 'A commit message is required')
+  }
+
+  try {
+    await runGit(['diff', '--cached', '--quiet'], repoDir)
+    throw new ApiError(400, 'INVALID_REQUEST', 'Nothing is staged to commit')
+  } catch (err) {
+    // `diff --quiet` exits non-zero exactly when there are staged changes
+    if (err instanceof ApiError) throw err
+  }
+
+  const args = ['commit', '-q', '-m', message]
+  if (author?.name && author.email) {
+    args.push(`--author=${author.name} <${author.email}>`)
+  }
+  await runGit(args, repoDir)
+
+  // HEAD itself: a page of history would skip it if it only touches paths outside repoDir
+  return readCommit(repoDir, 'HEAD')
+}
@@ -0,0 +1,141 @@
+// Small helpers shared by the dev-server API plugins
+import type { IncomingMessage, ServerResponse } from 'http'
+import net from 'net'
+import type { ApiErrorCode } from '../src/types'
+
+const DEFAULT_ERROR_CODES: Record<number, ApiErrorCode> = {
+  400: 'INVALID_REQUEST',
+  403: 'PATH_OUTSIDE_ROOT',
+  404: 'NOT_FOUND',
+  405: 'METHOD_NOT_ALLOWED',
+  409: 'VERSION_CONFLICT',
+  413: 'BODY_TOO_LARGE',
+  415: 'INVALID_REQUEST',
+}
+
+// Thrown by route helpers; turned into a JSON error response by sendApiError
+export class ApiError extends Error {
+  status: number
+  code: ApiErrorCode
+
+  constructor(status: number, code: ApiErrorCode, message: string) {
+    super(message)
+    this.status = status
+    this.code = code
+  }
+}
+
+export function sendJson(res: ServerResponse, data: unknown, statusCode = 200) {
+  res.statusCode = statusCode
+  res.setHeader('Content-Type', 'application/json')
+  res.end(JSON.stringify(data))
+}
+
+export function sendError(
+  res: ServerResponse,
+  statusCode: number,
+  error: string,
+  code: ApiErrorCode = DEFAULT_ERROR_CODES[statusCode] ?? 'INTERNAL_ERROR'
+) {
+  sendJson(res, { error, code }, statusCode)
+}
+
+// Map anything a handler throws onto a status and code
+export function sendApiError(res: ServerResponse, err: unknown) {
+  if (err instanceof ApiError) {
+    sendError(res, err.status, err.message, err.code)
+    return
+  }
+
+  const error = err as NodeJS.ErrnoException
+  if (error.code === 'ENOENT') {
+    sendError(res, 404, error.message, 'NOT_FOUND')
+  } else if (err instanceof SyntaxError) {
+    sendError(res, 400, `Invalid JSON: ${error.message}`, 'INVALID_REQUEST')
+  } else {
+    sendError(res, 500, error.message, 'INTERNAL_ERROR')
+  }
+}
+
+// Hosts a page can only reach by addressing this machine directly. Any other
+// name could be a rebound DNS entry for a hostile site.
+function isDirectHost(hostname: string): boolean {
+  const address = hostname.replace(/^\[(.*)\]$/, '$1')
+  return address === 'localhost' || address.endsWith('.localhost') || net.isIP(address) !== 0
+}
+
+/**
+ * Refuse requests another site could have sent through the user's browser:
+ * they must carry JSON (a cross-site form or text/plain post can't without a
+ * preflight), address the server directly and, when the browser names an
+ * origin, come from a page the server served itself.
+ */
+function requireAppRequest(req: IncomingMessage, res: ServerResponse): boolean {
+  const contentType = (req.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase()
+  if (contentType !== 'application/json') {
+    sendError(res, 415, 'Expected a JSON request body')
+    return false
+  }
+
+  const host = req.headers.host ?? ''
+  let isOwnOrigin = true
+  try {
+    const { origin } = req.headers
+    isOwnOrigin = isDirectHost(new URL(`http://${host}`).hostname) && (!origin || new URL(origin).host === host)
+  } catch {
+    isOwnOrigin = false // Unparseable Host or Origin
+  }
+  if (!isOwnOrigin) {
+    sendError(res, 403, 'Cross-origin requests are not allowed', 'CROSS_ORIGIN')
+    return false
+  }
+  return true
+}
+
+// Reject anything but the expected method, mirroring the file API handlers.
+// Anything but GET changes state, so it must also come from the app itself.
+export function requireMethod(req: IncomingMessage, res: ServerResponse, method: string): boolean {
+  if (req.method !== method) {
+    sendError(res, 405, 'Method not allowed')
+    return false
+  }
+  return method === 'GET' || requireAppRequest(req, res)
+}
+
+// Read and parse a JSON request body, refusing to buffer more than maxBytes
+export function readJsonBody<T>(req: IncomingMessage, maxBytes: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let received = 0
+    let tooLarge = false
+
+    req.on('data', (chunk: Buffer) => {
+      if (tooLarge) return
+      received += chunk.length
+      if (received > maxBytes) {
+        // Keep draining so the client still gets a response, but stop buffering
+        tooLarge = true
+        chunks.length = 0
+        reject(new ApiError(413, 'BODY_TOO_LARGE', `Request body exceeds ${maxBytes} bytes`))
+        return
+      }
+      chunks.push(chunk)
+    })
+
+    req.on('end', () => {
+      if (tooLarge) return
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')) as T)
+      } catch (err) {
+        reject(err)
+      }
+    })
+
+    req.on('error', reject)
+  })
+}
+
+// Middleware mounts strip the prefix, so req.url is just "/?a=b"
+export function getQueryParams(req: IncomingMessage): URLSearchParams {
+  return new URL(req.url || '/', 'http://localhost').searchParams
+}
@@ -0,0 +1,124 @@
+// Decides which paths make it into the galaxy: .gitignore, .git/info/exclude
+// and the include/exclude globs from gitlaxy.config.json
+import { runGit } from './git'
+import type { GitlaxyConfig } from './repoConfig'
+
+interface CompiledGlob {
+  regex: RegExp
+  // Literal leading directories, used to tell whether a glob can reach inside a folder
+  staticPrefix: string
+  anchored: boolean
+  hasWildcards: boolean
+}
+
+// Index of the "]" closing the character class opened at `start`, or -1 when the
+// "[" has no partner and should be read literally. A "]" right after "[" or "[!" is part of the class.
+function findClassEnd(pattern: string, start: number): number {
+  let i = start + 1
+  if (pattern[i] === '!' || pattern[i] === '^') i++
+  if (pattern[i] === ']') i++
+  const end = pattern.indexOf(']', i)
+  return end !== -1 && !pattern.slice(start, end).includes('/') ? end : -1
+}
+
+// "[abc]", "[a-z]" and "[!abc]" as a regex class that never matches "/"
+function compileClass(body: string): string {
+  const negated = body.startsWith('!') || body.startsWith('^')
+  const members = (negated ? body.slice(1) : body).replace(/[\\\]^]/g, '\\$&')
+  return negated ? `[^/${members}]` : `(?!/)[${members}]`
+}
+
+// Gitignore-flavoured glob: "*" stays within a segment, "**" crosses segments,
+// "[...]" is a character class, patterns without a slash match at any depth, and
+// matching a folder matches its contents
+function compileGlob(pattern: string): CompiledGlob {
+  const trimmed = pattern.replace(/^\//, '').replace(/\/$/, '')
+  const anchored = pattern.startsWith('/') || trimmed.includes('/')
+
+  let source = ''
+  for (let i = 0; i < trimmed.length; i++) {
+    const char = trimmed[i]
+    if (char === '*' && trimmed[i + 1] === '*') {
+      if (trimmed[i + 2] === '/') {
+        source += '(?:.*/)?'
+        i += 2
+      } else {
+        source += '.*'
+        i += 1
+      }
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else if (char === '[' && findClassEnd(trimmed, i) !== -1) {
+      const end = findClassEnd(trimmed, i)
+      source += compileClass(trimmed.slice(i + 1, end))
+      i = end
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+
+  const globIndex = trimmed.search(/[*?[]/)
+  const literal = globIndex === -1 ? trimmed : trimmed.slice(0, globIndex)
+
+  return {
+    regex: new RegExp(`${anchored ? '^' : '(?:^|/)'}${source}(?:/.*)?$`),
+    staticPrefix: literal.slice(0, literal.lastIndexOf('/') + 1),
+    anchored,
+    hasWildcards: globIndex !== -1,
+  }
+}
+
+function matchesAny(globs: CompiledGlob[], relPath: string): boolean {
+  return globs.some((glob) => glob.regex.test(relPath))
+}
+
+// Paths git considers ignored. Whole ignored folders come back as one entry.
+async function listGitIgnored(rootDir: string): Promise<Set<string>> {
+  try {
+    const output = await runGit(
+      ['ls-files', '-z', '--others', '--ignored', '--exclude-standard', '--directory'],
+      rootDir
+    )
+    return new Set(
+      output
+        .split('\0')
+        .filter(Boolean)
+        .map((entry) => '/' + entry.replace(/\/$/, ''))
+    )
+  } catch {
+    // Not a git repository - only the config globs apply
+    return new Set()
+  }
+}
+
+export interface IgnoreRules {
+  isExcluded: (repoPath: string) => boolean
+  isIgnored: (repoPath: string) => boolean
+  isIncluded: (repoPath: string) => boolean
+  // Whether an include glob could match something below this folder
+  mayIncludeWithin: (repoPath: string) => boolean
+  collapseIgnored: boolean
+}
+
+export async function loadIgnoreRules(rootDir: string, config: GitlaxyConfig): Promise<IgnoreRules> {
+  const ignored = await listGitIgnored(rootDir)
+  const includeGlobs = config.include.map(compileGlob)
+  const excludeGlobs = config.exclude.map(compileGlob)
+
+  return {
+    isExcluded: (repoPath) => matchesAny(excludeGlobs, repoPath.slice(1)),
+    isIgnored: (repoPath) => ignored.has(repoPath),
+    isIncluded: (repoPath) => matchesAny(includeGlobs, repoPath.slice(1)),
+    mayIncludeWithin: (repoPath) => {
+      const relDir = repoPath.slice(1) + '/'
+      return includeGlobs.some((glob) =>
+        !glob.anchored ||
+        glob.staticPrefix.startsWith(relDir) ||
+        (glob.hasWildcards && relDir.startsWith(glob.staticPrefix))
+      )
+    },
+    collapseIgnored: config.collapseIgnored,
+  }
+}
@@ -0,0 +1,208 @@
+// Import dependency graph: which files each source file imports, resolved to the
+// repo paths the galaxy uses as file ids. Handles TS/JS imports, requires and
+// re-exports, plus Python and Go imports. Anything that resolves outside the
+// tree (packages, the standard library) is left out.
+import fs from 'fs/promises'
+import path from 'path'
+import type { ImportEdge } from '../src/types'
+import { buildRepoTree, collectFilePaths } from './repoTree'
+
+// Larger files are most likely generated or bundled, so they're skipped
+const MAX_SOURCE_BYTES = 512 * 1024
+
+// Files read at once, to stay clear of the open file limit
+const READ_BATCH_SIZE = 64
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs']
+
+// Compiled-output extensions TypeScript lets imports use for their sources
+const SOURCE_FOR_OUTPUT: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+}
+
+const SCRIPT_PATTERNS = [
+  // import x from '...', import '...', export * from '...', export { x } from '...'
+  /\b(?:import|export)\s+(?:type\s+)?(?:[\w*{}\s,$]+?\s+from\s+)?['"]([^'"\n]+)['"]/g,
+  /\brequire\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g,
+  /\bimport\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g,
+]
+
+interface Resolver {
+  files: Set<string>
+  filesByDir: Map<string, string[]>
+  goModules: Array<{ name: string; dir: string }> // Module path and its folder, from go.mod files
+}
+
+interface Language {
+  extensions: string[]
+  // Import specifiers in a file's source, in the language's own syntax
+  extract: (source: string) => string[]
+  // Repo paths a specifier written in `importer` refers to
+  resolve: (specifier: string, importer: string, resolver: Resolver) => string[]
+}
+
+function matchAll(source: string, patterns: RegExp[]): string[] {
+  return patterns.flatMap((pattern) => Array.from(source.matchAll(pattern), (match) => match[1]))
+}
+
+function firstExisting(candidates: string[], files: Set<string>): string[] {
+  const found = candidates.find((candidate) => files.has(candidate))
+  return found ? [found] : []
+}
+
+const script: Language = {
+  extensions: SCRIPT_EXTENSIONS,
+
+  extract(source) {
+    // Commented-out imports would otherwise count
+    const code = source.replace(/\/\*[\s\S]*?\*\//g, '').replace(/^\s*\/\/.*$/gm, '')
+    return matchAll(code, SCRIPT_PATTERNS)
+  },
+
+  resolve(specifier, importer, { files }) {
+    const request = specifier.split('?')[0] // Bundler queries like "?raw"
+    if (!request.startsWith('.') && !request.startsWith('/')) return [] // A package
+
+    const target = path.posix.join(request.startsWith('/') ? '/' : path.posix.dirname(importer), request)
+    const extension = path.posix.extname(target)
+    const stem = target.slice(0, target.length - extension.length)
+
+    return firstExisting([
+      target,
+      ...(SOURCE_FOR_OUTPUT[extension] ?? []).map((source) => stem + source),
+      ...SCRIPT_EXTENSIONS.map((ext) => target + ext),
+      ...SCRIPT_EXTENSIONS.map((ext) => `${target}/index${ext}`),
+    ], files)
+  },
+}
+
+const python: Language = {
+  extensions: ['.py'],
+
+  // "from a import b, c" yields "a", "a.b" and "a.c", since b and c may be submodules
+  extract(source) {
+    const modules: string[] = []
+    for (const match of source.matchAll(/^[ \t]*from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+\(?([^)\n#]*)/gm)) {
+      const [, module, names] = match
+      modules.push(module)
+      for (const name of names.split(',').map((part) => part.trim().split(/\s+/)[0])) {
+        if (name && name !== '*') modules.push(module.endsWith('.') ? module + name : `${module}.${name}`)
+      }
+    }
+    for (const match of source.matchAll(/^[ \t]*import[ \t]+([\w. \t,]+)/gm)) {
+      modules.push(...match[1].split(',').map((part) => part.trim().split(/\s+/)[0]).filter(Boolean))
+    }
+    return modules
+  },
+
+  // Relative imports start from the importer's package; absolute ones are tried
+  // from the repo root, /src, then each folder above the importer
+  resolve(specifier, importer, { files }) {
+    const dots = specifier.length - specifier.replace(/^\.+/, '').length
+    const parts = specifier.slice(dots).split('.').filter(Boolean)
+
+    let bases: string[]
+    if (dots > 0) {
+      bases = [path.posix.join(path.posix.dirname(importer), ...Array(dots - 1).fill('..'))]
+    } else {
+      const ancestors: string[] = []
+      for (let dir = path.posix.dirname(importer); dir !== '/'; dir = path.posix.dirname(dir)) ancestors.unshift(dir)
+      bases = ['/', '/src', ...ancestors]
+    }
+
+    return firstExisting(bases.flatMap((base) => {
+      const module = path.posix.join(base, ...parts)
+      return parts.length > 0 ? [`${module}.py`, `${module}/__init__.py`] : [`${module}/__init__.py`]
+    }), files)
+  },
+}
+
+const go: Language = {
+  extensions: ['.go'],
+
+  extract(source) {
+    const single = Array.from(source.matchAll(/^[ \t]*import[ \t]+(?:[\w.]+[ \t]+)?"([^"]+)"/gm), (match) => match[1])
+    const grouped = Array.from(source.matchAll(/^[ \t]*import[ \t]*\(([\s\S]*?)\)/gm)).flatMap((block) =>
+      Array.from(block[1].matchAll(/"([^"]+)"/g), (match) => match[1])
+    )
+    return [...single, ...grouped]
+  },
+
+  // A package import depends on every non-test file in the package's folder
+  resolve(specifier, _importer, { filesByDir, goModules }) {
+    const module = goModules.find(({ name }) => specifier === name || specifier.startsWith(`${name}/`))
+    if (!module) return []
+
+    const dir = path.posix.join(module.dir, specifier.slice(module.name.length))
+    return (filesByDir.get(dir) ?? []).filter((file) => file.endsWith('.go') && !file.endsWith('_test.go'))
+  },
+}
+
+const LANGUAGES = [script, python, go]
+
+function languageFor(filePath: string): Language | undefined {
+  const extension = path.posix.extname(filePath)
+  return LANGUAGES.find((language) => language.extensions.includes(extension))
+}
+
+// Specifiers per absolute path, reused while the file is unchanged
+const extracted = new Map<string, { mtimeMs: number; size: number; specifiers: string[] }>()
+
+async function readSpecifiers(absPath: string, language: Language): Promise<string[]> {
+  const stats = await fs.stat(absPath)
+  if (stats.size > MAX_SOURCE_BYTES) return []
+
+  const cached = extracted.get(absPath)
+  if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) return cached.specifiers
+
+  const specifiers = language.extract(await fs.readFile(absPath, 'utf-8'))
+  extracted.set(absPath, { mtimeMs: stats.mtimeMs, size: stats.size, specifiers })
+  return specifiers
+}
+
+async function readGoModules(rootDir: string, files: string[]): Promise<Resolver['goModules']> {
+  const modules = await Promise.all(files.filter((file) => path.posix.basename(file) === 'go.mod').map(async (file) => {
+    const match = (await fs.readFile(path.join(rootDir, file), 'utf-8')).match(/^module\s+(\S+)/m)
+    return match ? [{ name: match[1], dir: path.posix.dirname(file) }] : []
+  }))
+  // Nested modules win over the modules around them
+  return modules.flat().sort((a, b) => b.name.length - a.name.length)
+}
+
+/**
+ * Build the import graph of a repository, one edge per importing file and
+ * imported file. Only files the galaxy shows (per the ignore rules) take part.
+ */
+export async function readImportGraph(rootDir: string): Promise<ImportEdge[]> {
+  const paths = collectFilePaths(await buildRepoTree(rootDir))
+
+  const filesByDir = new Map<string, string[]>()
+  for (const file of paths) {
+    const dir = path.posix.dirname(file)
+    filesByDir.set(dir, [...filesByDir.get(dir) ?? [], file])
+  }
+  const resolver: Resolver = { files: new Set(paths), filesByDir, goModules: await readGoModules(rootDir, paths) }
+
+  const edges: ImportEdge[] = []
+  const sources = paths.filter((file) => languageFor(file))
+  for (let i = 0; i < sources.length; i += READ_BATCH_SIZE) {
+    await Promise.all(sources.slice(i, i + READ_BATCH_SIZE).map(async (from) => {
+      const language = languageFor(from)!
+      let specifiers: string[]
+      try {
+        specifiers = await readSpecifiers(path.join(rootDir, from), language)
+      } catch {
+        return // Vanished or unreadable since the walk
+      }
+
+      const targets = new Set(specifiers.flatMap((specifier) => language.resolve(specifier, from, resolver)))
+      targets.delete(from)
+      for (const to of targets) edges.push({ from, to })
+    }))
+  }
+
+  return edges
+}
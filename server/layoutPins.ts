@@ -0,0 +1,56 @@
+// Solar system positions pinned in the galaxy, saved per repository under
+// ~/.gitlaxy so the layout keeps its shape between sessions
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import type { PinnedSystems } from '../src/types'
+
+const PINS_FILE = path.join(os.homedir(), '.gitlaxy', 'pinned-systems.json')
+
+// Repository root -> its pins
+type PinsFile = Record<string, PinnedSystems>
+
+async function readPinsFile(): Promise<PinsFile> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(PINS_FILE, 'utf-8'))
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+export async function readPinnedSystems(repoDir: string): Promise<PinnedSystems> {
+  return (await readPinsFile())[repoDir] ?? {}
+}
+
+export function isPinPosition(value: unknown): value is [number, number, number] {
+  return Array.isArray(value) && value.length === 3 && value.every((n) => typeof n === 'number' && Number.isFinite(n))
+}
+
+/**
+ * Pin a system at a position, or unpin it when `position` is null.
+ * Resolves to the repository's pins after the change.
+ */
+export async function savePinnedSystem(
+  repoDir: string,
+  systemPath: string,
+  position: [number, number, number] | null
+): Promise<PinnedSystems> {
+  const pinsFile = await readPinsFile()
+  const pins = { ...pinsFile[repoDir] }
+  if (position) {
+    pins[systemPath] = position
+  } else {
+    delete pins[systemPath]
+  }
+
+  if (Object.keys(pins).length > 0) {
+    pinsFile[repoDir] = pins
+  } else {
+    delete pinsFile[repoDir]
+  }
+
+  await fs.mkdir(path.dirname(PINS_FILE), { recursive: true })
+  await fs.writeFile(PINS_FILE, JSON.stringify(pinsFile, null, 2))
+  return pins
+}
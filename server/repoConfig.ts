@@ -0,0 +1,73 @@
+// Project-level settings read from gitlaxy.config.json in the repository root
+import fs from 'fs/promises'
+import path from 'path'
+
+export const CONFIG_FILE_NAME = 'gitlaxy.config.json'
+
+export interface GitlaxyConfig {
+  // Globs that force paths back in even when .gitignore hides them
+  include: string[]
+  // Globs that are always left out of the galaxy, on top of the defaults
+  exclude: string[]
+  // Show ignored folders as a single placeholder sun instead of dropping them
+  collapseIgnored: boolean
+  // Largest file the editor may open / save, in bytes
+  maxReadBytes: number
+  maxWriteBytes: number
+}
+
+const DEFAULT_CONFIG: GitlaxyConfig = {
+  include: [],
+  // Dependency folders would swamp the galaxy even in repos that don't ignore them
+  exclude: ['node_modules'],
+  collapseIgnored: true,
+  maxReadBytes: 5 * 1024 * 1024,
+  maxWriteBytes: 5 * 1024 * 1024,
+}
+
+function toStringArray(value: unknown, key: string): string[] {
+  if (value === undefined) return []
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw new Error(`${CONFIG_FILE_NAME}: "${key}" must be an array of strings`)
+  }
+  return value
+}
+
+function toByteLimit(value: unknown, key: 'maxReadBytes' | 'maxWriteBytes'): number {
+  if (value === undefined) return DEFAULT_CONFIG[key]
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new Error(`${CONFIG_FILE_NAME}: "${key}" must be a positive number of bytes`)
+  }
+  return value
+}
+
+export async function loadRepoConfig(rootDir: string): Promise<GitlaxyConfig> {
+  let raw: string
+  try {
+    raw = await fs.readFile(path.join(rootDir, CONFIG_FILE_NAME), 'utf-8')
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return DEFAULT_CONFIG
+    throw err
+  }
+
+  let parsed: Record<string, unknown>
+  try {
+    parsed = JSON.parse(raw)
+  } catch (err) {
+    // A bare SyntaxError would be reported as a malformed request body
+    throw new Error(`${CONFIG_FILE_NAME} is not valid JSON: ${(err as Error).message}`)
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`${CONFIG_FILE_NAME} must contain a JSON object`)
+  }
+
+  return {
+    include: toStringArray(parsed.include, 'include'),
+    exclude: [...DEFAULT_CONFIG.exclude, ...toStringArray(parsed.exclude, 'exclude')],
+    collapseIgnored: typeof parsed.collapseIgnored === 'boolean'
+      ? parsed.collapseIgnored
+      : DEFAULT_CONFIG.collapseIgnored,
+    maxReadBytes: toByteLimit(parsed.maxReadBytes, 'maxReadBytes'),
+    maxWriteBytes: toByteLimit(parsed.maxWriteBytes, 'maxWriteBytes'),
+  }
+}
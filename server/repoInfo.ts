@@ -0,0 +1,74 @@
+// Reads branch, HEAD, upstream, remotes and dirty state for the HUD
+import path from 'path'
+import type { RepoInfo, RepoRemote } from '../src/types'
+import { runGit } from './git'
+
+// `git remote -v` lists every remote twice (fetch and push); keep the fetch urls
+function parseRemotes(output: string): RepoRemote[] {
+  const remotes: RepoRemote[] = []
+  for (const line of output.split('\n')) {
+    const match = line.match(/^(\S+)\s+(\S+)\s+\(fetch\)$/)
+    if (match) {
+      remotes.push({ name: match[1], url: match[2] })
+    }
+  }
+  return remotes
+}
+
+export async function readRepoInfo(repoDir: string): Promise<RepoInfo> {
+  const info: RepoInfo = {
+    name: path.basename(repoDir),
+    path: repoDir,
+    branch: '',
+    ahead: 0,
+    behind: 0,
+    remotes: [],
+    isDirty: false,
+  }
+
+  let status: string
+  try {
+    status = await runGit(['status', '--porcelain=v2', '--branch'], repoDir)
+  } catch {
+    // Not a git repository - only the name and path are meaningful
+    return info
+  }
+
+  for (const line of status.split('\n')) {
+    if (!line) continue
+
+    if (!line.startsWith('# ')) {
+      // Any entry line (changed, renamed, unmerged or untracked) means a dirty tree
+      info.isDirty = true
+      continue
+    }
+
+    const [key, ...rest] = line.slice(2).split(' ')
+    const value = rest.join(' ')
+
+    switch (key) {
+      case 'branch.oid':
+        if (value !== '(initial)') info.headCommit = value
+        break
+      case 'branch.head':
+        info.branch = value === '(detached)' ? 'HEAD' : value
+        break
+      case 'branch.upstream':
+        info.upstream = value
+        break
+      case 'branch.ab': {
+        const match = value.match(/^\+(\d+) -(\d+)$/)
+        if (match) {
+          info.ahead = parseInt(match[1], 10)
+          info.behind = parseInt(match[2], 10)
+        }
+        break
+      }
+    }
+  }
+
+  info.remotes = parseRemotes(await runGit(['remote', '-v'], repoDir))
+  info.remoteUrl = (info.remotes.find((remote) => remote.name === 'origin') ?? info.remotes[0])?.url
+
+  return info
+}
@@ -0,0 +1,62 @@
+// The repository every API plugin reads from. Starts at GITLAXY_ROOT (set by the
+// CLI) or the Vite process cwd, and can be switched at runtime from the app.
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+
+const RECENT_REPOS_FILE = path.join(os.homedir(), '.gitlaxy', 'recent-repos.json')
+const MAX_RECENT_REPOS = 10
+
+let repoRoot = path.resolve(process.env.GITLAXY_ROOT || process.cwd())
+const rootChangeListeners = new Set<(root: string) => void>()
+
+export function getRepoRoot(): string {
+  return repoRoot
+}
+
+// Notified after the app switches repositories (e.g. to restart the file watcher)
+export function onRepoRootChange(listener: (root: string) => void): () => void {
+  rootChangeListeners.add(listener)
+  return () => rootChangeListeners.delete(listener)
+}
+
+export async function readRecentRepos(): Promise<string[]> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(RECENT_REPOS_FILE, 'utf-8'))
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+async function rememberRepo(dir: string) {
+  const recent = [dir, ...(await readRecentRepos()).filter((item) => item !== dir)]
+  try {
+    await fs.mkdir(path.dirname(RECENT_REPOS_FILE), { recursive: true })
+    await fs.writeFile(RECENT_REPOS_FILE, JSON.stringify(recent.slice(0, MAX_RECENT_REPOS), null, 2))
+  } catch (err) {
+    // The history is a convenience; failing to persist it shouldn't block opening
+    console.warn('[gitlaxy] Could not save recent repositories:', (err as Error).message)
+  }
+}
+
+// Point the APIs at a new directory. "~" is expanded so pasted paths just work.
+export async function setRepoRoot(dir: string): Promise<string> {
+  const expanded = dir.startsWith('~') ? path.join(os.homedir(), dir.slice(1)) : dir
+  const resolved = await fs.realpath(path.resolve(expanded))
+
+  const stats = await fs.stat(resolved)
+  if (!stats.isDirectory()) {
+    throw new Error(`Not a directory: ${resolved}`)
+  }
+
+  repoRoot = resolved
+  rootChangeListeners.forEach((listener) => listener(resolved))
+  await rememberRepo(resolved)
+  return resolved
+}
+
+// Record whatever root the server started with so it shows up in the dialog
+export function rememberStartupRepo() {
+  void rememberRepo(repoRoot)
+}
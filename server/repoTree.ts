@@ -0,0 +1,182 @@
+// Walks a directory on disk and builds the FolderNode tree the galaxy renders
+import fs from 'fs/promises'
+import path from 'path'
+import type { FileNode, FolderNode } from '../src/types'
+import { loadRepoConfig } from './repoConfig'
+import { loadIgnoreRules, type IgnoreRules } from './ignoreRules'
+
+// Git internals are never part of the galaxy, whatever the config says
+const SKIPPED_DIRECTORIES = new Set(['.git'])
+
+// Same extension rule the demo repo uses, so colors line up (".gitignore" -> "gitignore")
+function getExtension(name: string): string {
+  if (!name.includes('.')) return ''
+  return name.split('.').pop()!.toLowerCase()
+}
+
+// Join a repo-relative parent path ("/" or "/src") with a child name
+function joinRepoPath(parentPath: string, name: string): string {
+  return parentPath === '/' ? `/${name}` : `${parentPath}/${name}`
+}
+
+function createPlaceholder(repoPath: string, name: string): FolderNode {
+  return {
+    id: repoPath,
+    name,
+    path: repoPath,
+    type: 'folder',
+    children: [],
+    collapsed: true,
+    ignored: true,
+  }
+}
+
+interface WalkContext {
+  rules: IgnoreRules
+  // Expanding a placeholder shows one level; nested folders stay collapsed
+  shallow: boolean
+}
+
+async function walkFolder(
+  absPath: string,
+  repoPath: string,
+  name: string,
+  ctx: WalkContext,
+  insideIgnored: boolean
+): Promise<FolderNode> {
+  const entries = await fs.readdir(absPath, { withFileTypes: true })
+  const { rules } = ctx
+
+  const children = await Promise.all(
+    entries.map(async (entry): Promise<FileNode | FolderNode | null> => {
+      const childAbs = path.join(absPath, entry.name)
+      const childPath = joinRepoPath(repoPath, entry.name)
+
+      if (rules.isExcluded(childPath)) return null
+
+      const ignored = insideIgnored || rules.isIgnored(childPath)
+      const included = ignored && rules.isIncluded(childPath)
+
+      if (entry.isDirectory()) {
+        if (SKIPPED_DIRECTORIES.has(entry.name)) return null
+
+        if (ctx.shallow) return createPlaceholder(childPath, entry.name)
+
+        if (ignored && !included) {
+          // Keep walking only if an include glob can match something inside
+          if (rules.mayIncludeWithin(childPath)) {
+            const folder = await walkFolder(childAbs, childPath, entry.name, ctx, true)
+            if (folder.children.some((child) => child.type === 'file' || !child.collapsed)) return folder
+          }
+          return rules.collapseIgnored ? createPlaceholder(childPath, entry.name) : null
+        }
+
+        return walkFolder(childAbs, childPath, entry.name, ctx, ignored && !included)
+      }
+
+      // Symlinks and special files are skipped so we never leave the root
+      if (!entry.isFile()) return null
+      if (ignored && !included) return null
+
+      try {
+        const stats = await fs.stat(childAbs)
+        return {
+          id: childPath,
+          name: entry.name,
+          path: childPath,
+          type: 'file',
+          extension: getExtension(entry.name),
+          size: stats.size,
+          lastModified: stats.mtime,
+        }
+      } catch {
+        // File vanished between readdir and stat
+        return null
+      }
+    })
+  )
+
+  return {
+    id: repoPath,
+    name,
+    path: repoPath,
+    type: 'folder',
+    children: children
+      .filter((child): child is FileNode | FolderNode => child !== null)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  }
+}
+
+export async function loadTreeRules(rootDir: string): Promise<IgnoreRules> {
+  const config = await loadRepoConfig(rootDir)
+  return loadIgnoreRules(rootDir, config)
+}
+
+// Build the full tree for a repository root. Paths are repo-relative ("/src/App.tsx")
+// so they can be passed straight back to the file API.
+export async function buildRepoTree(rootDir: string, rules?: IgnoreRules): Promise<FolderNode> {
+  const ctx = { rules: rules ?? await loadTreeRules(rootDir), shallow: false }
+  return walkFolder(rootDir, '/', path.basename(rootDir), ctx, false)
+}
+
+// Repo paths of every file in a tree
+export function collectFilePaths(folder: FolderNode): string[] {
+  return folder.children.flatMap((child) => (child.type === 'file' ? [child.path] : collectFilePaths(child)))
+}
+
+// Build the node for a single path, as it would appear in the full tree.
+// Returns 'missing' when the path is gone and null when the rules hide it.
+export async function buildNodeAt(
+  rootDir: string,
+  repoPath: string,
+  rules: IgnoreRules
+): Promise<FileNode | FolderNode | 'missing' | null> {
+  const segments = repoPath.split('/').filter(Boolean)
+  if (segments.some((segment) => SKIPPED_DIRECTORIES.has(segment))) return null
+
+  // Anything below an excluded or ignored folder is already hidden (or collapsed)
+  for (let i = 1; i < segments.length; i++) {
+    const ancestor = '/' + segments.slice(0, i).join('/')
+    if (rules.isExcluded(ancestor)) return null
+    if (rules.isIgnored(ancestor) && !rules.isIncluded(ancestor)) return null
+  }
+  if (rules.isExcluded(repoPath)) return null
+
+  const absPath = path.join(rootDir, repoPath)
+  let stats
+  try {
+    stats = await fs.lstat(absPath)
+  } catch {
+    return 'missing'
+  }
+
+  const name = segments[segments.length - 1]
+  const ignored = rules.isIgnored(repoPath) && !rules.isIncluded(repoPath)
+
+  if (stats.isDirectory()) {
+    if (ignored) return rules.collapseIgnored ? createPlaceholder(repoPath, name) : null
+    return walkFolder(absPath, repoPath, name, { rules, shallow: false }, false)
+  }
+
+  if (!stats.isFile() || ignored) return null
+
+  return {
+    id: repoPath,
+    name,
+    path: repoPath,
+    type: 'file',
+    extension: getExtension(name),
+    size: stats.size,
+    lastModified: stats.mtime,
+  }
+}
+
+// Load the direct contents of a collapsed placeholder folder. Files are listed even
+// if ignored (the user asked for them); subfolders come back as placeholders again.
+export async function expandRepoFolder(rootDir: string, repoPath: string): Promise<FolderNode> {
+  const rules = await loadTreeRules(rootDir)
+  const absPath = path.join(rootDir, repoPath)
+
+  const folder = await walkFolder(absPath, repoPath, path.basename(absPath), { rules, shallow: true }, false)
+  return { ...folder, ignored: true }
+}
@@ -0,0 +1,169 @@
+// Watches the repository on disk and turns file system events into RepoChange batches
+import fs, { type FSWatcher } from 'fs'
+import path from 'path'
+import type { FolderNode, RepoChange, RepoNode } from '../src/types'
+import { buildNodeAt, buildRepoTree, loadTreeRules } from './repoTree'
+import type { IgnoreRules } from './ignoreRules'
+import { getRepoRoot, onRepoRootChange } from './repoRoot'
+
+// Editors often write a file in several steps; wait for things to settle
+const DEBOUNCE_MS = 150
+
+type ChangeListener = (changes: RepoChange[]) => void
+
+interface RepoWatcher {
+  close: () => void
+}
+
+function isInside(repoPath: string, folderPath: string): boolean {
+  return folderPath === '/' || repoPath === folderPath || repoPath.startsWith(folderPath + '/')
+}
+
+// Folders that are actually part of the galaxy - collapsed placeholders aren't watched
+function collectFolders(node: RepoNode, result: string[] = []): string[] {
+  if (node.type === 'folder' && !node.collapsed) {
+    result.push(node.path)
+    node.children.forEach((child) => collectFolders(child, result))
+  }
+  return result
+}
+
+// One non-recursive fs.watch per visible folder. Recursive watching would also
+// register every folder inside node_modules and friends, which can exhaust inotify.
+function createRepoWatcher(rootDir: string, onChanges: ChangeListener): RepoWatcher {
+  const watchers = new Map<string, FSWatcher>()
+  const pending = new Set<string>()
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let closed = false
+  let lastRules: IgnoreRules | null = null // Last rules that loaded, for when the config is broken mid-edit
+
+  const watchFolder = (folderPath: string) => {
+    if (watchers.has(folderPath) || closed) return
+    try {
+      const watcher = fs.watch(path.join(rootDir, folderPath), (_event, filename) => {
+        if (!filename) return
+        const name = filename.toString()
+        if (name === '.git' || name.startsWith('.git/')) return
+        pending.add(folderPath === '/' ? `/${name}` : `${folderPath}/${name}`)
+        if (timer) clearTimeout(timer)
+        timer = setTimeout(flush, DEBOUNCE_MS)
+      })
+      watcher.on('error', () => unwatchBelow(folderPath))
+      watchers.set(folderPath, watcher)
+    } catch {
+      // Folder vanished before we could watch it; the remove event covers it
+    }
+  }
+
+  const unwatchBelow = (folderPath: string) => {
+    for (const [watchedPath, watcher] of watchers) {
+      if (isInside(watchedPath, folderPath)) {
+        watcher.close()
+        watchers.delete(watchedPath)
+      }
+    }
+  }
+
+  // .gitignore and gitlaxy.config.json may have changed too, so re-read the
+  // rules for every batch, keeping the last good ones if they don't load
+  const readRules = async (): Promise<IgnoreRules> => {
+    try {
+      lastRules = await loadTreeRules(rootDir)
+    } catch (err) {
+      if (!lastRules) throw err
+      console.warn('[gitlaxy] Could not reload ignore rules, keeping the previous ones:', (err as Error).message)
+    }
+    return lastRules
+  }
+
+  // Runs from a timer, so nothing may escape: a rejection here would take the dev server down
+  const flush = async () => {
+    timer = null
+    if (closed) return
+    // Parents first, so a new folder swallows the events of its own contents
+    const paths = Array.from(pending).sort((a, b) => a.length - b.length)
+    pending.clear()
+
+    try {
+      const rules = await readRules()
+      const changes: RepoChange[] = []
+      const handledFolders: string[] = []
+
+      for (const repoPath of paths) {
+        if (closed) return
+        if (handledFolders.some((folder) => isInside(repoPath, folder))) continue
+
+        let node: Awaited<ReturnType<typeof buildNodeAt>>
+        try {
+          node = await buildNodeAt(rootDir, repoPath, rules)
+        } catch (err) {
+          // E.g. permissions, or a folder deleted mid-scan; its next event tries again
+          console.warn(`[gitlaxy] Could not read ${repoPath}:`, (err as Error).message)
+          continue
+        }
+
+        if (node === 'missing') {
+          changes.push({ type: 'remove', path: repoPath })
+          handledFolders.push(repoPath)
+          unwatchBelow(repoPath)
+        } else if (node) {
+          changes.push({ type: 'upsert', node })
+          if (node.type === 'folder') {
+            handledFolders.push(repoPath)
+            collectFolders(node).forEach(watchFolder)
+          }
+        }
+      }
+
+      if (changes.length > 0 && !closed) {
+        onChanges(changes)
+      }
+    } catch (err) {
+      console.warn('[gitlaxy] Could not process file changes:', (err as Error).message)
+    }
+  }
+
+  Promise.all([buildRepoTree(rootDir), loadTreeRules(rootDir)])
+    .then(([tree, rules]: [FolderNode, IgnoreRules]) => {
+      lastRules ??= rules
+      collectFolders(tree).forEach(watchFolder)
+    })
+    .catch((err) => console.warn('[gitlaxy] Could not start file watcher:', err.message))
+
+  return {
+    close: () => {
+      closed = true
+      if (timer) clearTimeout(timer)
+      unwatchBelow('/')
+    },
+  }
+}
+
+// A single shared watcher for all connected clients. It starts with the first
+// subscriber, follows the app when it switches repositories, and stops when the
+// last subscriber leaves.
+const listeners = new Set<ChangeListener>()
+let activeWatcher: RepoWatcher | null = null
+
+const broadcast: ChangeListener = (changes) => listeners.forEach((listener) => listener(changes))
+
+onRepoRootChange((root) => {
+  if (!activeWatcher) return
+  activeWatcher.close()
+  activeWatcher = createRepoWatcher(root, broadcast)
+})
+
+export function subscribeToRepoChanges(listener: ChangeListener): () => void {
+  listeners.add(listener)
+  if (!activeWatcher) {
+    activeWatcher = createRepoWatcher(getRepoRoot(), broadcast)
+  }
+
+  return () => {
+    listeners.delete(listener)
+    if (listeners.size === 0 && activeWatcher) {
+      activeWatcher.close()
+      activeWatcher = null
+    }
+  }
+}
@@ -0,0 +1,86 @@
+// Canonical path checks for every API that touches files inside the repository
+import fs from 'fs/promises'
+import path from 'path'
+import { ApiError } from './http'
+
+// Bytes inspected when sniffing for binary content (same window git uses)
+const BINARY_SNIFF_BYTES = 8000
+
+function isWithin(root: string, target: string): boolean {
+  const relative = path.relative(root, target)
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative))
+}
+
+// Resolve the real location of a path that may not exist yet (e.g. a new file)
+// by canonicalizing the nearest existing ancestor.
+async function realpathAllowMissing(target: string): Promise<string> {
+  try {
+    return await fs.realpath(target)
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+    const parent = path.dirname(target)
+    if (parent === target) throw err
+    return path.join(await realpathAllowMissing(parent), path.basename(target))
+  }
+}
+
+export interface ResolvedRepoPath {
+  absPath: string
+  relativePath: string // relative to the canonical root, using the platform separator
+}
+
+// Map a repo path onto disk without following symlinks, refusing paths that
+// climb out of the repository. For git commands, which act on a link itself
+// rather than on what it points to.
+export async function resolveLexicalRepoPath(
+  rootDir: string,
+  repoPath: string
+): Promise<ResolvedRepoPath & { realRoot: string }> {
+  if (typeof repoPath !== 'string' || !repoPath || repoPath.includes('\0')) {
+    throw new ApiError(400, 'INVALID_REQUEST', 'A file path is required')
+  }
+
+  const realRoot = await fs.realpath(rootDir)
+  const absPath = path.resolve(realRoot, '.' + path.posix.sep + repoPath.replace(/^\/+/, ''))
+
+  if (!isWithin(realRoot, absPath)) {
+    throw new ApiError(403, 'PATH_OUTSIDE_ROOT', 'Access denied: path is outside the repository')
+  }
+  return { realRoot, absPath, relativePath: path.relative(realRoot, absPath) }
+}
+
+// Map a repo path ("/src/App.tsx", or relative "src/App.tsx") onto disk. Both the
+// lexical and the symlink-resolved location must stay inside the repository root,
+// so "/../repo-evil" and links pointing outside are refused.
+export async function resolveRepoPath(rootDir: string, repoPath: string): Promise<ResolvedRepoPath> {
+  const { realRoot, absPath: lexicalPath } = await resolveLexicalRepoPath(rootDir, repoPath)
+
+  const realPath = await realpathAllowMissing(lexicalPath)
+  if (!isWithin(realRoot, realPath)) {
+    throw new ApiError(403, 'PATH_OUTSIDE_ROOT', 'Access denied: path resolves outside the repository')
+  }
+
+  return { absPath: realPath, relativePath: path.relative(realRoot, realPath) }
+}
+
+// True when the path points into a .git directory
+export function isGitInternal(relativePath: string): boolean {
+  return relativePath.split(path.sep).includes('.git')
+}
+
+// Git's heuristic: a NUL byte near the start means binary
+export function looksBinary(data: Buffer | string): boolean {
+  if (typeof data === 'string') return data.slice(0, BINARY_SNIFF_BYTES).includes('\0')
+  return data.subarray(0, BINARY_SNIFF_BYTES).includes(0)
+}
+
+export async function isBinaryFile(absPath: string): Promise<boolean> {
+  const handle = await fs.open(absPath, 'r')
+  try {
+    const buffer = Buffer.alloc(BINARY_SNIFF_BYTES)
+    const { bytesRead } = await handle.read(buffer, 0, BINARY_SNIFF_BYTES, 0)
+    return looksBinary(buffer.subarray(0, bytesRead))
+  } finally {
+    await handle.close()
+  }
+}
@@ -3,6 +3,8 @@ import { Suspense, useEffect } from 'react'
 import Scene from './components/Scene'
 import HUD from './components/HUD'
 import SettingsMenu from './components/SettingsMenu'
+import OpenRepoDialog from './components/OpenRepoDialog'
+import Editor from './components/Editor'
 import FPSCounter from './components/FPSCounter'
 import { useStore } from './store'
 import './index.css'
@@ -51,6 +53,8 @@ function App() {
       </Canvas>
       <HUD />
       <SettingsMenu />
+      <OpenRepoDialog />
+      <Editor />
       {showFPS && <FPSCounter />}
     </>
   )
@@ -0,0 +1,145 @@
+import { useCallback, useState } from 'react'
+import { useStore } from '../store'
+import type { GitBranch } from '../types'
+import { GitApiError } from '../utils/gitApi'
+import { formatRelativeDate } from '../utils/blameGutter'
+import './BranchPicker.css'
+
+function BranchRow({ branch, isViewed, disabled, onCheckout, onView }: {
+  branch: GitBranch
+  isViewed: boolean
+  disabled: boolean
+  onCheckout: () => void
+  onView: () => void
+}) {
+  return (
+    <div className={`branch-row ${branch.isCurrent ? 'current' : ''} ${isViewed ? 'viewed' : ''}`}>
+      <span className="branch-row-name" title={branch.upstream ? `Tracks ${branch.upstream}` : branch.name}>
+        {branch.isCurrent && '● '}
+        {branch.name}
+      </span>
+      <span className="branch-row-date">{formatRelativeDate(branch.date)}</span>
+      {!branch.isCurrent && (
+        <>
+          <button className="branch-row-action" onClick={onView} disabled={disabled} title="Render read-only">
+            👁
+          </button>
+          <button className="branch-row-action" onClick={onCheckout} disabled={disabled} title="Check out">
+            ⎇
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
+
+// HUD branch badge; opens a list of local and remote branches to check out or view read-only
+export default function BranchPicker() {
+  const { repoInfo, branches, viewedBranch, loadBranches, switchBranch, viewBranch } = useStore()
+  const [isOpen, setIsOpen] = useState(false)
+  const [filter, setFilter] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [blockedBranch, setBlockedBranch] = useState<string | null>(null) // Refused by the dirty-tree guard
+  const [isBusy, setIsBusy] = useState(false)
+
+  const toggle = useCallback(() => {
+    if (!isOpen) loadBranches()
+    setIsOpen(!isOpen)
+    setError(null)
+    setBlockedBranch(null)
+  }, [isOpen, loadBranches])
+
+  const run = useCallback(async (operation: () => Promise<void>) => {
+    setIsBusy(true)
+    setError(null)
+    setBlockedBranch(null)
+    try {
+      await operation()
+      setIsOpen(false)
+    } catch (err) {
+      setError((err as Error).message)
+      return err
+    } finally {
+      setIsBusy(false)
+    }
+  }, [])
+
+  const handleCheckout = useCallback(async (name: string) => {
+    const err = await run(() => switchBranch(name))
+    if (err instanceof GitApiError && err.code === 'DIRTY_WORKTREE') setBlockedBranch(name)
+  }, [run, switchBranch])
+
+  if (!repoInfo?.branch) return null
+
+  const query = filter.trim().toLowerCase()
+  const matching = branches.filter((branch) => branch.name.toLowerCase().includes(query))
+  const local = matching.filter((branch) => !branch.isRemote)
+  const remote = matching.filter((branch) => branch.isRemote)
+
+  const renderRow = (branch: GitBranch) => (
+    <BranchRow
+      key={branch.name}
+      branch={branch}
+      isViewed={branch.name === viewedBranch}
+      disabled={isBusy}
+      onCheckout={() => handleCheckout(branch.name)}
+      onView={() => run(() => viewBranch(branch.name))}
+    />
+  )
+
+  return (
+    <div className="branch-picker">
+      <button
+        className={`repo-branch ${viewedBranch ? 'viewing' : ''}`}
+        onClick={toggle}
+        title={repoInfo.remotes.map((remote) => `${remote.name}  ${remote.url}`).join('\n') || 'No remotes'}
+      >
+        <span className="branch-icon">⎇</span>
+        {viewedBranch ?? repoInfo.branch}
+        {viewedBranch && <span className="branch-read-only">read-only</span>}
+        {!viewedBranch && repoInfo.isDirty && <span className="repo-dirty" title="Uncommitted changes">●</span>}
+      </button>
+
+      {viewedBranch && (
+        <button className="branch-return" onClick={() => viewBranch(null)} title={`Back to ${repoInfo.branch}`}>
+          ✕
+        </button>
+      )}
+
+      {isOpen && (
+        <div className="branch-menu">
+          <input
+            className="branch-filter"
+            type="text"
+            placeholder="Filter branches"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            autoFocus
+          />
+
+          {error && (
+            <div className="branch-error">
+              ⚠️ {error}
+              {blockedBranch && (
+                <button onClick={() => run(() => viewBranch(blockedBranch))} disabled={isBusy}>
+                  View {blockedBranch} read-only instead
+                </button>
+              )}
+            </div>
+          )}
+
+          <div className="branch-section-title">Local</div>
+          {local.map(renderRow)}
+          {local.length === 0 && <div className="branch-empty">No matching branches</div>}
+
+          {remote.length > 0 && (
+            <>
+              <div className="branch-section-title">Remote</div>
+              {remote.map(renderRow)}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,179 @@
+import { useCallback, useState } from 'react'
+import { useStore, useWorkingFiles } from '../store'
+import type { WorkingChangeStatus, WorkingFileStatus } from '../types'
+import './ChangesPanel.css'
+
+const STATUS_ICONS: Record<WorkingChangeStatus, string> = {
+  added: '+',
+  modified: '~',
+  deleted: '-',
+  renamed: '→',
+  untracked: '?',
+  conflicted: '!',
+}
+
+function FileRow({ file, status, actionLabel, onAction, disabled }: {
+  file: WorkingFileStatus
+  status: WorkingChangeStatus
+  actionLabel: string
+  onAction: () => void
+  disabled: boolean
+}) {
+  const name = file.path.split('/').pop()
+  return (
+    <div className={`changes-file ${status}`} title={file.oldPath ? `${file.oldPath} → ${file.path}` : file.path}>
+      <span className="status-icon">{STATUS_ICONS[status]}</span>
+      <span className="changes-file-name">{name}</span>
+      <span className="changes-file-dir">{file.path.slice(0, -(name?.length ?? 0) - 1)}</span>
+      <button className="changes-file-action" onClick={onAction} disabled={disabled}>
+        {actionLabel}
+      </button>
+    </div>
+  )
+}
+
+// HUD panel listing uncommitted files, with staging and a commit form
+export default function ChangesPanel() {
+  const files = useWorkingFiles()
+  const { showChanges, setShowChanges, stagePaths, unstagePaths, commitStaged } = useStore()
+  const [message, setMessage] = useState('')
+  const [authorName, setAuthorName] = useState('')
+  const [authorEmail, setAuthorEmail] = useState('')
+  const [showAuthor, setShowAuthor] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const staged = files.filter((file) => file.staged !== null)
+  const unstaged = files.filter((file) => file.unstaged !== null)
+
+  // Run a git operation, surfacing its error in the panel
+  const run = useCallback(async (operation: () => Promise<void>) => {
+    setIsBusy(true)
+    setError(null)
+    try {
+      await operation()
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setIsBusy(false)
+    }
+  }, [])
+
+  const handleCommit = useCallback(() => run(async () => {
+    await commitStaged({
+      message,
+      ...(authorName.trim() && authorEmail.trim()
+        ? { authorName: authorName.trim(), authorEmail: authorEmail.trim() }
+        : {}),
+    })
+    setMessage('')
+  }), [run, commitStaged, message, authorName, authorEmail])
+
+  if (!showChanges) return null
+
+  return (
+    <div className="changes-panel">
+      <div className="changes-header">
+        <span className="changes-title">± Changes</span>
+        <button className="changes-close" onClick={() => setShowChanges(false)}>✕</button>
+      </div>
+
+      {error && <div className="changes-error">⚠️ {error}</div>}
+
+      <div className="changes-section">
+        <div className="changes-section-title">
+          <span>Staged ({staged.length})</span>
+          {staged.length > 0 && (
+            <button
+              className="changes-bulk-action"
+              onClick={() => run(() => unstagePaths(staged.map((file) => file.path)))}
+              disabled={isBusy}
+            >
+              Unstage all
+            </button>
+          )}
+        </div>
+        {staged.map((file) => (
+          <FileRow
+            key={file.path}
+            file={file}
+            status={file.staged!}
+            actionLabel="−"
+            onAction={() => run(() => unstagePaths([file.path]))}
+            disabled={isBusy}
+          />
+        ))}
+      </div>
+
+      <div className="changes-section">
+        <div className="changes-section-title">
+          <span>Changes ({unstaged.length})</span>
+          {unstaged.length > 0 && (
+            <button
+              className="changes-bulk-action"
+              onClick={() => run(() => stagePaths(unstaged.map((file) => file.path)))}
+              disabled={isBusy}
+            >
+              Stage all
+            </button>
+          )}
+        </div>
+        {unstaged.length === 0 && staged.length === 0 && (
+          <div className="changes-empty">Working tree clean</div>
+        )}
+        {unstaged.map((file) => (
+          <FileRow
+            key={file.path}
+            file={file}
+            status={file.unstaged!}
+            actionLabel="+"
+            onAction={() => run(() => stagePaths([file.path]))}
+            disabled={isBusy}
+          />
+        ))}
+      </div>
+
+      <form
+        className="changes-commit"
+        onSubmit={(e) => {
+          e.preventDefault()
+          handleCommit()
+        }}
+      >
+        <textarea
+          className="changes-message"
+          placeholder="Commit message"
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          rows={3}
+        />
+        <button type="button" className="changes-author-toggle" onClick={() => setShowAuthor(!showAuthor)}>
+          {showAuthor ? '▾' : '▸'} Author (defaults to git config)
+        </button>
+        {showAuthor && (
+          <div className="changes-author">
+            <input
+              type="text"
+              placeholder="Name"
+              value={authorName}
+              onChange={(e) => setAuthorName(e.target.value)}
+            />
+            <input
+              type="email"
+              placeholder="Email"
+              value={authorEmail}
+              onChange={(e) => setAuthorEmail(e.target.value)}
+            />
+          </div>
+        )}
+        <button
+          type="submit"
+          className="changes-commit-btn"
+          disabled={isBusy || staged.length === 0 || !message.trim()}
+        >
+          {isBusy ? 'Working…' : `✓ Commit ${staged.length} file${staged.length === 1 ? '' : 's'}`}
+        </button>
+      </form>
+    </div>
+  )
+}
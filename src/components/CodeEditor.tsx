@@ -0,0 +1,209 @@
+import { useEffect, useRef } from 'react'
+import { basicSetup } from 'codemirror'
+import { EditorView, keymap } from '@codemirror/view'
+import { Annotation, Compartment, EditorState, Transaction } from '@codemirror/state'
+import { indentWithTab } from '@codemirror/commands'
+import { indentUnit } from '@codemirror/language'
+import { oneDark } from '@codemirror/theme-one-dark'
+import { loadLanguage } from '../utils/editorLanguages'
+import { blameGutter } from '../utils/blameGutter'
+import type { EditorViewState } from '../store'
+import type { FileBlame } from '../types'
+
+interface CodeEditorProps {
+  value: string
+  extension: string
+  initialViewState?: EditorViewState
+  blame?: FileBlame | null
+  onChange: (value: string) => void
+  onCursorChange?: (line: number, column: number) => void
+  // Reported when the view goes away (tab switch, takeoff) so it can be restored
+  onViewStateChange?: (viewState: EditorViewState) => void
+  onSelectCommit?: (hash: string) => void
+}
+
+// Marks document replacements coming from props rather than typing
+const externalChange = Annotation.define<boolean>()
+
+// Blend One Dark into the editor overlay's palette
+const gitlaxyTheme = EditorView.theme(
+  {
+    '&': {
+      height: '100%',
+      fontSize: '14px',
+      backgroundColor: '#0d0d1a',
+    },
+    '.cm-scroller': {
+      fontFamily: "'JetBrains Mono', 'SF Mono', 'Fira Code', monospace",
+      lineHeight: '1.6',
+    },
+    '.cm-gutters': {
+      backgroundColor: '#0d0d1a',
+      borderRight: '1px solid rgba(78, 205, 196, 0.15)',
+    },
+    '.cm-activeLineGutter': {
+      backgroundColor: 'rgba(78, 205, 196, 0.1)',
+    },
+    '.cm-panels': {
+      backgroundColor: '#1a1a2e',
+    },
+    '.cm-blame-gutter .cm-gutterElement': {
+      padding: '0 8px',
+      cursor: 'pointer',
+    },
+    '.cm-blame-entry': {
+      display: 'flex',
+      gap: '8px',
+      width: '260px',
+      fontSize: '11px',
+      color: '#8a8aa0',
+    },
+    '.cm-blame-entry:hover': {
+      color: '#4ecdc4',
+    },
+    '.cm-blame-entry.continuation': {
+      opacity: '0.35',
+    },
+    '.cm-blame-entry.uncommitted': {
+      color: '#ffe66d',
+      cursor: 'default',
+    },
+    '.cm-blame-author': {
+      flex: '1',
+      overflow: 'hidden',
+      textOverflow: 'ellipsis',
+    },
+    '.cm-blame-hash': {
+      color: '#4ecdc4',
+    },
+    '.cm-blame-date': {
+      width: '80px',
+      textAlign: 'right',
+    },
+  },
+  { dark: true }
+)
+
+// CodeMirror surface used on planets: highlighting by extension, line numbers,
+// bracket matching, smart indentation, search/replace (Mod-F) and go-to-line (Mod-Alt-G)
+export default function CodeEditor({
+  value,
+  extension,
+  initialViewState,
+  blame,
+  onChange,
+  onCursorChange,
+  onViewStateChange,
+  onSelectCommit,
+}: CodeEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const viewRef = useRef<EditorView | null>(null)
+  const languageRef = useRef(new Compartment())
+  const blameRef = useRef(new Compartment())
+  const initialRef = useRef({ value, viewState: initialViewState })
+  const onChangeRef = useRef(onChange)
+  const onCursorChangeRef = useRef(onCursorChange)
+  const onViewStateChangeRef = useRef(onViewStateChange)
+  const onSelectCommitRef = useRef(onSelectCommit)
+
+  useEffect(() => {
+    onChangeRef.current = onChange
+    onCursorChangeRef.current = onCursorChange
+    onViewStateChangeRef.current = onViewStateChange
+    onSelectCommitRef.current = onSelectCommit
+  }, [onChange, onCursorChange, onViewStateChange, onSelectCommit])
+
+  // Create the view once per mount; later content changes go through the sync effect below
+  useEffect(() => {
+    if (!containerRef.current) return
+
+    const { value: initialValue, viewState } = initialRef.current
+    const cursor = Math.min(viewState?.cursor ?? 0, initialValue.length)
+
+    const view = new EditorView({
+      parent: containerRef.current,
+      state: EditorState.create({
+        doc: initialValue,
+        selection: { anchor: cursor },
+        extensions: [
+          // Before basicSetup so the blame gutter sits left of the line numbers
+          blameRef.current.of([]),
+          basicSetup,
+          keymap.of([indentWithTab]),
+          indentUnit.of('  '),
+          languageRef.current.of([]),
+          oneDark,
+          gitlaxyTheme,
+          EditorView.updateListener.of((update) => {
+            const external = update.transactions.some((tr) => tr.annotation(externalChange))
+            if (update.docChanged && !external) {
+              onChangeRef.current(update.state.doc.toString())
+            }
+            if (update.docChanged || update.selectionSet) {
+              const head = update.state.selection.main.head
+              const line = update.state.doc.lineAt(head)
+              onCursorChangeRef.current?.(line.number, head - line.from + 1)
+            }
+          }),
+        ],
+      }),
+    })
+    viewRef.current = view
+    view.focus()
+
+    // Scrolling needs a measured layout, so wait a frame
+    const restoreScroll = requestAnimationFrame(() => {
+      view.scrollDOM.scrollTop = viewState?.scrollTop ?? 0
+    })
+
+    return () => {
+      cancelAnimationFrame(restoreScroll)
+      onViewStateChangeRef.current?.({
+        scrollTop: view.scrollDOM.scrollTop,
+        cursor: view.state.selection.main.head,
+      })
+      view.destroy()
+      viewRef.current = null
+    }
+  }, [])
+
+  // Replace the document when the content changes from outside (load, reload, merge)
+  useEffect(() => {
+    const view = viewRef.current
+    if (!view || view.state.doc.toString() === value) return
+
+    view.dispatch({
+      changes: { from: 0, to: view.state.doc.length, insert: value },
+      annotations: [externalChange.of(true), Transaction.addToHistory.of(false)],
+    })
+  }, [value])
+
+  // Show or hide the blame gutter
+  useEffect(() => {
+    viewRef.current?.dispatch({
+      effects: blameRef.current.reconfigure(
+        blame ? blameGutter(blame, (hash) => onSelectCommitRef.current?.(hash)) : []
+      ),
+    })
+  }, [blame])
+
+  // Swap in the language mode for the file's extension
+  useEffect(() => {
+    let cancelled = false
+    loadLanguage(extension)
+      .then((language) => {
+        if (cancelled || !viewRef.current) return
+        viewRef.current.dispatch({
+          effects: languageRef.current.reconfigure(language ?? []),
+        })
+      })
+      .catch((err) => {
+        console.warn('[CodeEditor] Failed to load language mode:', err)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [extension])
+
+  return <div ref={containerRef} className="codemirror-wrapper" />
+}
@@ -0,0 +1,144 @@
+import { useCallback, useState } from 'react'
+import { useStore, type ComparedFile } from '../store'
+import { findNode } from '../utils/gitParser'
+import { getPlanetPosition } from '../hooks/useProximityDetection'
+import './ComparePanel.css'
+
+const STATUS_ICONS: Record<ComparedFile['status'], string> = {
+  added: '+',
+  modified: '~',
+  removed: '-',
+}
+
+const STATUS_ORDER: ComparedFile['status'][] = ['modified', 'added', 'removed']
+
+// Suggestions for the revision inputs: the current branch and recent commits
+const MAX_SUGGESTED_COMMITS = 50
+
+// Sidebar for compare mode: pick two revisions, then warp to any changed file
+export default function ComparePanel() {
+  const { viewMode, comparison, compareRevisions, commits, repoInfo, travelTo, selectNode } = useStore()
+  const [base, setBase] = useState(comparison?.base ?? 'HEAD~1')
+  const [head, setHead] = useState(comparison?.head ?? 'HEAD')
+  const [error, setError] = useState<string | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const handleCompare = useCallback(async () => {
+    setIsBusy(true)
+    setError(null)
+    try {
+      await compareRevisions(base.trim(), head.trim())
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setIsBusy(false)
+    }
+  }, [compareRevisions, base, head])
+
+  const warpToFile = useCallback((path: string) => {
+    const position = getPlanetPosition(path)
+    if (!position) return
+    travelTo({ x: position.x, y: position.y, z: position.z })
+
+    const node = comparison ? findNode(comparison.root, path) : null
+    if (node) selectNode(node)
+  }, [comparison, travelTo, selectNode])
+
+  if (viewMode !== 'compare') return null
+
+  // Biggest changes first within each status
+  const files = comparison
+    ? [...comparison.files].sort((a, b) =>
+      STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) ||
+      (b.additions + b.deletions) - (a.additions + a.deletions))
+    : []
+  const additions = files.reduce((sum, file) => sum + file.additions, 0)
+  const deletions = files.reduce((sum, file) => sum + file.deletions, 0)
+
+  return (
+    <div className="compare-panel">
+      <div className="compare-header">
+        <span className="compare-title">⚖️ Compare</span>
+      </div>
+
+      <form
+        className="compare-form"
+        onSubmit={(e) => {
+          e.preventDefault()
+          handleCompare()
+        }}
+      >
+        <input
+          type="text"
+          list="compare-revisions"
+          value={base}
+          onChange={(e) => setBase(e.target.value)}
+          placeholder="Base"
+          spellCheck={false}
+        />
+        <button
+          type="button"
+          className="compare-swap"
+          onClick={() => {
+            setBase(head)
+            setHead(base)
+          }}
+          title="Swap revisions"
+        >
+          ⇄
+        </button>
+        <input
+          type="text"
+          list="compare-revisions"
+          value={head}
+          onChange={(e) => setHead(e.target.value)}
+          placeholder="Head"
+          spellCheck={false}
+        />
+        <button type="submit" className="compare-btn" disabled={isBusy || !base.trim() || !head.trim()}>
+          {isBusy ? '…' : 'Go'}
+        </button>
+        <datalist id="compare-revisions">
+          {repoInfo?.branch && repoInfo.branch !== 'HEAD' && <option value={repoInfo.branch} />}
+          {commits.slice(0, MAX_SUGGESTED_COMMITS).map((commit) => (
+            <option key={commit.hash} value={commit.shortHash}>{commit.message}</option>
+          ))}
+        </datalist>
+      </form>
+
+      {error && <div className="compare-error">⚠️ {error}</div>}
+
+      {comparison && (
+        <>
+          <div className="compare-summary">
+            <span>{files.length} file{files.length === 1 ? '' : 's'}</span>
+            <span className="additions">+{additions}</span>
+            <span className="deletions">−{deletions}</span>
+          </div>
+
+          {files.length === 0 && <div className="compare-empty">No differences</div>}
+
+          {files.map((file) => {
+            const name = file.path.split('/').pop() ?? file.path
+            return (
+              <button
+                key={file.path}
+                className={`compare-file ${file.status}`}
+                onClick={() => warpToFile(file.path)}
+                title={file.oldPath ? `${file.oldPath} → ${file.path}` : file.path}
+              >
+                <span className="status-icon">{STATUS_ICONS[file.status]}</span>
+                <span className="compare-file-name">{name}</span>
+                <span className="compare-file-dir">{file.path.slice(0, -name.length - 1)}</span>
+                <span className="compare-file-lines">
+                  {file.additions > 0 && <span className="additions">+{file.additions}</span>}
+                  {file.deletions > 0 && <span className="deletions">−{file.deletions}</span>}
+                </span>
+              </button>
+            )
+          })}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,245 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import {
+  DIFF_CONTEXT_LINES,
+  diffLines,
+  groupHunks,
+  revertHunk,
+  splitLines,
+  type DiffHunk,
+} from '../utils/lineDiff'
+
+export type DiffLayout = 'inline' | 'split'
+
+// Typing pause before the diff is recomputed; a large, heavily edited file takes a while
+const DIFF_DEBOUNCE_MS = 250
+
+interface NumberedLine {
+  number: number
+  text: string
+}
+
+type DiffRow =
+  | { type: 'gap'; count: number }
+  | { type: 'hunk'; hunk: number; header: string }
+  | { type: 'context'; oldNumber: number; newNumber: number; text: string }
+  | { type: 'change'; removed: NumberedLine[]; added: NumberedLine[] }
+
+interface DiffViewProps {
+  original: string // HEAD version
+  current: string // Editor buffer
+  isNewFile: boolean
+  layout: DiffLayout
+  onLayoutChange: (layout: DiffLayout) => void
+  onChange: (content: string) => void
+}
+
+// Flatten hunks into rows, collapsing unchanged runs outside the context window
+function buildRows(oldLines: string[], newLines: string[], hunks: DiffHunk[]): DiffRow[] {
+  const rows: DiffRow[] = []
+  let oldPos = 0
+  let newPos = 0
+
+  const pushContext = (oldEnd: number) => {
+    while (oldPos < oldEnd) {
+      rows.push({ type: 'context', oldNumber: oldPos + 1, newNumber: newPos + 1, text: oldLines[oldPos] })
+      oldPos++
+      newPos++
+    }
+  }
+
+  hunks.forEach((hunk, index) => {
+    const contextStart = Math.max(hunk.oldStart - DIFF_CONTEXT_LINES, oldPos)
+    if (contextStart > oldPos) {
+      rows.push({ type: 'gap', count: contextStart - oldPos })
+      newPos += contextStart - oldPos
+      oldPos = contextStart
+    }
+
+    const header: DiffRow = { type: 'hunk', hunk: index, header: '' }
+    rows.push(header)
+    const headerOld = oldPos
+    const headerNew = newPos
+
+    for (const change of hunk.changes) {
+      pushContext(change.oldStart)
+      rows.push({
+        type: 'change',
+        removed: oldLines.slice(change.oldStart, change.oldEnd).map((text, i) => ({ number: change.oldStart + i + 1, text })),
+        added: newLines.slice(change.newStart, change.newEnd).map((text, i) => ({ number: change.newStart + i + 1, text })),
+      })
+      oldPos = change.oldEnd
+      newPos = change.newEnd
+    }
+    pushContext(Math.min(hunk.oldEnd + DIFF_CONTEXT_LINES, oldLines.length))
+
+    header.header = `@@ -${headerOld + 1},${oldPos - headerOld} +${headerNew + 1},${newPos - headerNew} @@`
+  })
+
+  if (oldPos < oldLines.length) {
+    rows.push({ type: 'gap', count: oldLines.length - oldPos })
+  }
+  return rows
+}
+
+function LineNumber({ value }: { value: number | null }) {
+  return <span className="diff-line-number">{value ?? ''}</span>
+}
+
+// Diff of the editor buffer against HEAD, with hunk navigation and per-hunk revert
+export default function DiffView({ original, current, isNewFile, layout, onLayoutChange, onChange }: DiffViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [activeHunk, setActiveHunk] = useState(0)
+
+  // The buffer as last diffed, catching up once typing pauses
+  const [diffed, setDiffed] = useState(current)
+  useEffect(() => {
+    if (diffed === current) return
+    const timer = setTimeout(() => setDiffed(current), DIFF_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [diffed, current])
+  const isStale = diffed !== current
+
+  const { oldLines, newLines, hunks, rows } = useMemo(() => {
+    const oldLines = splitLines(original)
+    const newLines = splitLines(diffed)
+    const hunks = groupHunks(diffLines(oldLines, newLines))
+    return { oldLines, newLines, hunks, rows: buildRows(oldLines, newLines, hunks) }
+  }, [original, diffed])
+
+  const goToHunk = useCallback((index: number) => {
+    if (hunks.length === 0) return
+    const target = (index + hunks.length) % hunks.length
+    setActiveHunk(target)
+    containerRef.current
+      ?.querySelector(`[data-hunk="${target}"]`)
+      ?.scrollIntoView({ block: 'start', behavior: 'smooth' })
+  }, [hunks.length])
+
+  const handleRevert = useCallback((index: number) => {
+    onChange(revertHunk(oldLines, newLines, hunks[index]).join('\n'))
+  }, [oldLines, newLines, hunks, onChange])
+
+  const renderHunkHeader = (row: Extract<DiffRow, { type: 'hunk' }>) => (
+    <div
+      key={`hunk-${row.hunk}`}
+      data-hunk={row.hunk}
+      className={`diff-hunk-header ${row.hunk === activeHunk ? 'active' : ''}`}
+    >
+      <span>{row.header}</span>
+      {/* Reverting a hunk of an outdated diff would drop the latest keystrokes */}
+      <button className="diff-revert-btn" onClick={() => handleRevert(row.hunk)} disabled={isStale}>
+        ↺ Revert hunk
+      </button>
+    </div>
+  )
+
+  const renderInline = (row: DiffRow, i: number) => {
+    switch (row.type) {
+      case 'gap':
+        return <div key={i} className="diff-gap">⋯ {row.count} unchanged line{row.count === 1 ? '' : 's'}</div>
+      case 'hunk':
+        return renderHunkHeader(row)
+      case 'context':
+        return (
+          <div key={i} className="diff-line context">
+            <LineNumber value={row.oldNumber} />
+            <LineNumber value={row.newNumber} />
+            <span className="diff-line-text">{' ' + row.text}</span>
+          </div>
+        )
+      case 'change':
+        return [
+          ...row.removed.map((line) => (
+            <div key={`${i}-${line.number}-r`} className="diff-line removed">
+              <LineNumber value={line.number} />
+              <LineNumber value={null} />
+              <span className="diff-line-text">{'-' + line.text}</span>
+            </div>
+          )),
+          ...row.added.map((line) => (
+            <div key={`${i}-${line.number}-a`} className="diff-line added">
+              <LineNumber value={null} />
+              <LineNumber value={line.number} />
+              <span className="diff-line-text">{'+' + line.text}</span>
+            </div>
+          )),
+        ]
+    }
+  }
+
+  const renderSplit = (row: DiffRow, i: number) => {
+    switch (row.type) {
+      case 'gap':
+        return <div key={i} className="diff-gap">⋯ {row.count} unchanged line{row.count === 1 ? '' : 's'}</div>
+      case 'hunk':
+        return renderHunkHeader(row)
+      case 'context':
+        return (
+          <div key={i} className="diff-split-row">
+            <div className="diff-line context">
+              <LineNumber value={row.oldNumber} />
+              <span className="diff-line-text">{row.text}</span>
+            </div>
+            <div className="diff-line context">
+              <LineNumber value={row.newNumber} />
+              <span className="diff-line-text">{row.text}</span>
+            </div>
+          </div>
+        )
+      case 'change': {
+        // Pair removed and added lines side by side, padding the shorter side
+        const count = Math.max(row.removed.length, row.added.length)
+        return Array.from({ length: count }, (_, j) => {
+          const left = row.removed[j]
+          const right = row.added[j]
+          return (
+            <div key={`${i}-${j}`} className="diff-split-row">
+              <div className={`diff-line ${left ? 'removed' : 'empty'}`}>
+                <LineNumber value={left?.number ?? null} />
+                <span className="diff-line-text">{left?.text ?? ''}</span>
+              </div>
+              <div className={`diff-line ${right ? 'added' : 'empty'}`}>
+                <LineNumber value={right?.number ?? null} />
+                <span className="diff-line-text">{right?.text ?? ''}</span>
+              </div>
+            </div>
+          )
+        })
+      }
+    }
+  }
+
+  return (
+    <div className="diff-view">
+      <div className="diff-toolbar">
+        <span className="diff-summary">
+          {isNewFile
+            ? 'New file - not in HEAD yet'
+            : hunks.length === 0
+              ? 'No changes since HEAD'
+              : `${hunks.length} hunk${hunks.length === 1 ? '' : 's'} changed since HEAD`}
+        </span>
+        <div className="diff-actions">
+          <button className="editor-btn" onClick={() => goToHunk(activeHunk - 1)} disabled={hunks.length === 0}>
+            ↑ Prev
+          </button>
+          <span className="diff-hunk-position">
+            {hunks.length > 0 ? `${Math.min(activeHunk, hunks.length - 1) + 1}/${hunks.length}` : '0/0'}
+          </span>
+          <button className="editor-btn" onClick={() => goToHunk(activeHunk + 1)} disabled={hunks.length === 0}>
+            ↓ Next
+          </button>
+          <button
+            className="editor-btn"
+            onClick={() => onLayoutChange(layout === 'inline' ? 'split' : 'inline')}
+          >
+            {layout === 'inline' ? '◫ Side by Side' : '☰ Inline'}
+          </button>
+        </div>
+      </div>
+      <div ref={containerRef} className={`diff-lines ${layout}`}>
+        {rows.map(layout === 'inline' ? renderInline : renderSplit)}
+      </div>
+    </div>
+  )
+}
@@ -1,63 +1,208 @@
-import { useEffect, useRef, useCallback } from 'react'
-import { useStore, useIsEditorOpen, useEditorContent, useEditorHasUnsavedChanges, useEditorError, useLandingTarget } from '../store'
-import { readFile, writeFile } from '../utils/fileApi'
+import { useEffect, useCallback, useState } from 'react'
+import {
+  useStore,
+  useIsEditorOpen,
+  useActiveEditorBuffer,
+  useEditorBuffers,
+  useEditorTabs,
+  type EditorViewState,
+} from '../store'
+import type { FileBlame } from '../types'
+import { FileApiError, readBlame, readFile, readHeadFile, writeFile } from '../utils/fileApi'
+import { mergeThreeWay, type MergeResult } from '../utils/lineDiff'
+import { getLanguageName } from '../utils/editorLanguages'
+import CodeEditor from './CodeEditor'
+import MergeView from './MergeView'
+import DiffView, { type DiffLayout } from './DiffView'
 import './Editor.css'
 
+// Friendlier wording for the refusals the file API can answer with
+function describeFileError(err: unknown): string {
+  if (!(err instanceof FileApiError)) return (err as Error).message
+  switch (err.code) {
+    case 'FILE_TOO_LARGE':
+    case 'BODY_TOO_LARGE':
+      return `File is too large for the editor (${err.message})`
+    case 'BINARY_FILE':
+      return 'Binary files cannot be edited here'
+    case 'GIT_INTERNAL':
+      return 'Files inside .git are read-only'
+    case 'PATH_OUTSIDE_ROOT':
+      return 'This file lies outside the repository'
+    default:
+      return err.message
+  }
+}
+
 export default function Editor() {
-  const textareaRef = useRef<HTMLTextAreaElement>(null)
   const isOpen = useIsEditorOpen()
-  const content = useEditorContent()
-  const hasUnsavedChanges = useEditorHasUnsavedChanges()
-  const error = useEditorError()
-  const targetFile = useLandingTarget()
-  const { setEditorContent, setEditorError, closeEditor, openEditor, completeTakeoff, setHasUnsavedChanges } = useStore()
+  const buffer = useActiveEditorBuffer()
+  const buffers = useEditorBuffers()
+  const tabs = useEditorTabs()
+  const {
+    setActiveEditorTab,
+    closeEditorTab,
+    loadEditorBuffer,
+    setEditorContent,
+    setEditorError,
+    completeTakeoff,
+    markEditorSaved,
+    setEditorConflict,
+    resolveEditorConflict,
+    saveEditorViewState,
+    refreshRepoInfo,
+    showCommitInHistory,
+  } = useStore()
+  const [mergePreview, setMergePreview] = useState<{ path: string; result: MergeResult } | null>(null)
+  const [cursor, setCursor] = useState({ line: 1, column: 1 })
+  // HEAD version of the file being diffed; content is null while it loads
+  const [diff, setDiff] = useState<{ path: string; exists: boolean; content: string | null } | null>(null)
+  const [diffLayout, setDiffLayout] = useState<DiffLayout>('inline')
+  // Blame for the active file; data is null while it loads
+  const [blame, setBlame] = useState<{ path: string; data: FileBlame | null } | null>(null)
+
+  const activePath = buffer?.file.path ?? null
+  const content = buffer?.content ?? null
+  const baseContent = buffer?.baseContent ?? null
+  const version = buffer?.version ?? null
+  const conflict = buffer?.conflict ?? null
+  const needsLoad = buffer !== null && buffer.content === null && buffer.error === null
 
-  // Load file content when landing
+  // Load a tab's file the first time it becomes active
   useEffect(() => {
-    if (targetFile && isOpen && content === null) {
-      readFile(targetFile.path)
-        .then((fileContent) => {
-          openEditor(fileContent)
-        })
-        .catch((err) => {
-          setEditorError(err.message)
-        })
-    }
-  }, [targetFile, isOpen, content, openEditor, setEditorError])
+    if (!isOpen || !activePath || !needsLoad) return
+    readFile(activePath)
+      .then((snapshot) => {
+        loadEditorBuffer(activePath, snapshot.content, snapshot.version)
+      })
+      .catch((err) => {
+        setEditorError(activePath, describeFileError(err))
+      })
+  }, [isOpen, activePath, needsLoad, loadEditorBuffer, setEditorError])
+
+  const handleChange = useCallback((value: string) => {
+    if (activePath) setEditorContent(activePath, value)
+  }, [activePath, setEditorContent])
 
-  const handleChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    setEditorContent(e.target.value)
-  }, [setEditorContent])
+  const handleCursorChange = useCallback((line: number, column: number) => {
+    setCursor({ line, column })
+  }, [])
 
-  const handleSave = useCallback(async () => {
-    if (!targetFile || content === null) return
+  const handleViewStateChange = useCallback((viewState: EditorViewState) => {
+    if (activePath) saveEditorViewState(activePath, viewState)
+  }, [activePath, saveEditorViewState])
+
+  const saveContent = useCallback(async (baseVersion?: string) => {
+    if (!activePath || content === null) return
 
     try {
-      await writeFile(targetFile.path, content)
-      setHasUnsavedChanges(false)
-      setEditorError(null)
+      const savedVersion = await writeFile(activePath, content, baseVersion)
+      markEditorSaved(activePath, content, savedVersion)
+      // The save may have flipped the working tree to dirty
+      refreshRepoInfo()
     } catch (err) {
-      setEditorError((err as Error).message)
-    }
-  }, [targetFile, content, setHasUnsavedChanges, setEditorError])
-
-  const handleClose = useCallback(() => {
-    if (hasUnsavedChanges) {
-      if (!confirm('You have unsaved changes. Are you sure you want to close?')) {
+      if (err instanceof FileApiError && err.code === 'VERSION_CONFLICT') {
+        // Fetch what's on disk now so the user can reload, overwrite or merge
+        try {
+          setEditorConflict(activePath, await readFile(activePath))
+          setEditorError(activePath, null)
+        } catch (readErr) {
+          setEditorError(activePath, describeFileError(readErr))
+        }
         return
       }
+      setEditorError(activePath, describeFileError(err))
+    }
+  }, [activePath, content, markEditorSaved, setEditorConflict, setEditorError, refreshRepoInfo])
+
+  const handleSave = useCallback(() => {
+    return saveContent(version ?? undefined)
+  }, [saveContent, version])
+
+  // Conflict resolutions
+  const handleReload = useCallback(() => {
+    if (!activePath || !conflict) return
+    if (!confirm('Discard your changes and load the version on disk?')) return
+    setMergePreview(null)
+    loadEditorBuffer(activePath, conflict.content, conflict.version)
+  }, [activePath, conflict, loadEditorBuffer])
+
+  const handleOverwrite = useCallback(() => {
+    setMergePreview(null)
+    saveContent()
+  }, [saveContent])
+
+  const handleMerge = useCallback(() => {
+    if (!activePath || !conflict || content === null || baseContent === null) return
+    setMergePreview({
+      path: activePath,
+      result: mergeThreeWay(baseContent, content, conflict.content),
+    })
+  }, [activePath, conflict, content, baseContent])
+
+  const handleAcceptMerge = useCallback(() => {
+    if (!mergePreview) return
+    const { path, result } = mergePreview
+    resolveEditorConflict(path, result.text)
+    if (result.conflicts > 0) {
+      setEditorError(path, `Resolve ${result.conflicts} conflict block(s) marked with <<<<<<< before saving`)
+    }
+    setMergePreview(null)
+  }, [mergePreview, resolveEditorConflict, setEditorError])
+
+  const handleToggleDiff = useCallback(() => {
+    if (!activePath) return
+    if (diff?.path === activePath) {
+      setDiff(null)
+      return
+    }
+
+    setDiff({ path: activePath, exists: true, content: null })
+    readHeadFile(activePath)
+      .then((head) => {
+        setDiff((current) => current?.path === activePath ? { path: activePath, ...head } : current)
+      })
+      .catch((err) => {
+        setDiff(null)
+        setEditorError(activePath, describeFileError(err))
+      })
+  }, [activePath, diff, setEditorError])
+
+  const handleToggleBlame = useCallback(() => {
+    if (!activePath) return
+    if (blame?.path === activePath) {
+      setBlame(null)
+      return
     }
-    closeEditor()
-  }, [hasUnsavedChanges, closeEditor])
 
-  const handleTakeoff = useCallback(() => {
-    if (hasUnsavedChanges) {
-      if (!confirm('You have unsaved changes. Are you sure you want to take off?')) {
+    setBlame({ path: activePath, data: null })
+    readBlame(activePath)
+      .then((data) => {
+        setBlame((current) => current?.path === activePath ? { path: activePath, data } : current)
+      })
+      .catch((err) => {
+        setBlame(null)
+        setEditorError(activePath, describeFileError(err))
+      })
+  }, [activePath, blame, setEditorError])
+
+  // Leave the planet and show the commit on the History timeline
+  const handleSelectCommit = useCallback((hash: string) => {
+    completeTakeoff()
+    showCommitInHistory(hash)
+  }, [completeTakeoff, showCommitInHistory])
+
+  const handleCloseTab = useCallback((path: string) => {
+    if (buffers[path]?.isDirty) {
+      if (!confirm(`${buffers[path].file.name} has unsaved changes. Close it anyway?`)) {
         return
       }
     }
-    completeTakeoff()
-  }, [hasUnsavedChanges, completeTakeoff])
+    if (mergePreview?.path === path) setMergePreview(null)
+    if (diff?.path === path) setDiff(null)
+    if (blame?.path === path) setBlame(null)
+    closeEditorTab(path)
+  }, [buffers, mergePreview, diff, blame, closeEditorTab])
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -75,7 +220,12 @@ export default function Editor() {
     return () => window.removeEventListener('keydown', handleKeyDown)
   }, [isOpen, handleSave])
 
-  if (!isOpen) return null
+  if (!isOpen || !buffer) return null
+
+  const targetFile = buffer.file
+  const activeMerge = mergePreview?.path === activePath ? mergePreview.result : null
+  const activeDiff = diff?.path === activePath ? diff : null
+  const activeBlame = blame?.path === activePath ? blame : null
 
   return (
     <div className="editor-overlay">
@@ -83,42 +233,121 @@ export default function Editor() {
         <div className="editor-header">
           <div className="editor-file-info">
             <span className="editor-icon">🪐</span>
-            <span className="editor-filename">{targetFile?.name || 'Unknown'}</span>
-            <span className="editor-path">{targetFile?.path}</span>
-            {hasUnsavedChanges && <span className="editor-unsaved">●</span>}
+            <span className="editor-filename">{targetFile.name}</span>
+            <span className="editor-path">{targetFile.path}</span>
+            {buffer.isDirty && <span className="editor-unsaved">●</span>}
           </div>
           <div className="editor-actions">
-            <button className="editor-btn save" onClick={handleSave} disabled={!hasUnsavedChanges}>
+            <button className="editor-btn save" onClick={handleSave} disabled={!buffer.isDirty}>
               💾 Save
             </button>
-            <button className="editor-btn close" onClick={handleClose}>
+            <button
+              className={`editor-btn diff ${activeDiff ? 'active' : ''}`}
+              onClick={handleToggleDiff}
+              disabled={content === null}
+            >
+              ± Diff
+            </button>
+            <button
+              className={`editor-btn blame ${activeBlame ? 'active' : ''}`}
+              onClick={handleToggleBlame}
+              disabled={content === null}
+            >
+              👤 Blame
+            </button>
+            <button className="editor-btn close" onClick={() => handleCloseTab(targetFile.path)}>
               ✕ Close
             </button>
-            <button className="editor-btn takeoff" onClick={handleTakeoff}>
+            <button className="editor-btn takeoff" onClick={completeTakeoff}>
               🚀 Take Off
             </button>
           </div>
         </div>
 
-        {error && (
+        <div className="editor-tabs">
+          {tabs.map((path) => {
+            const tab = buffers[path]
+            return (
+              <div
+                key={path}
+                className={`editor-tab ${path === activePath ? 'active' : ''}`}
+                title={path}
+                onClick={() => setActiveEditorTab(path)}
+              >
+                <span className="editor-tab-name">{tab.file.name}</span>
+                {tab.isDirty && <span className="editor-tab-dirty">●</span>}
+                <button
+                  className="editor-tab-close"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    handleCloseTab(path)
+                  }}
+                >
+                  ✕
+                </button>
+              </div>
+            )
+          })}
+        </div>
+
+        {buffer.error && (
           <div className="editor-error">
-            ⚠️ {error}
+            ⚠️ {buffer.error}
+          </div>
+        )}
+
+        {conflict && (
+          <div className="editor-conflict">
+            <span>⚠️ This file changed on disk since you opened it.</span>
+            <div className="editor-conflict-actions">
+              <button className="editor-btn" onClick={handleReload}>
+                ↻ Reload
+              </button>
+              <button className="editor-btn close" onClick={handleOverwrite}>
+                ⤓ Overwrite
+              </button>
+              <button className="editor-btn save" onClick={handleMerge}>
+                ⇄ Merge
+              </button>
+            </div>
           </div>
         )}
 
         <div className="editor-content">
-          {content === null ? (
+          {content === null || activeDiff?.content === null ? (
             <div className="editor-loading">
               <div className="loading-spinner"></div>
-              <span>Loading file...</span>
+              <span>{content === null ? 'Loading file...' : 'Loading HEAD version...'}</span>
             </div>
+          ) : activeMerge ? (
+            <MergeView
+              result={activeMerge}
+              onAccept={handleAcceptMerge}
+              onCancel={() => setMergePreview(null)}
+            />
+          ) : activeDiff ? (
+            <DiffView
+              // Debounced state starts over for each file
+              key={targetFile.path}
+              original={activeDiff.content ?? ''}
+              current={content}
+              isNewFile={!activeDiff.exists}
+              layout={diffLayout}
+              onLayoutChange={setDiffLayout}
+              onChange={handleChange}
+            />
           ) : (
-            <textarea
-              ref={textareaRef}
-              className="editor-textarea"
+            <CodeEditor
+              // A fresh view per tab; scroll and cursor come back from the buffer
+              key={targetFile.path}
               value={content}
+              extension={targetFile.extension}
+              initialViewState={{ scrollTop: buffer.scrollTop, cursor: buffer.cursor }}
+              blame={activeBlame?.data ?? null}
               onChange={handleChange}
-              spellCheck={false}
+              onCursorChange={handleCursorChange}
+              onViewStateChange={handleViewStateChange}
+              onSelectCommit={handleSelectCommit}
             />
           )}
         </div>
@@ -126,9 +355,14 @@ export default function Editor() {
         <div className="editor-footer">
           <span className="editor-hint">
             <kbd>Cmd/Ctrl+S</kbd> Save
+            <kbd>Cmd/Ctrl+F</kbd> Find/Replace
+            <kbd>Cmd/Ctrl+Alt+G</kbd> Go to Line
+          </span>
+          <span className="editor-cursor">
+            Ln {cursor.line}, Col {cursor.column}
           </span>
           <span className="editor-status">
-            {targetFile?.extension?.toUpperCase() || 'TEXT'}
+            {getLanguageName(targetFile.extension)}
           </span>
         </div>
       </div>
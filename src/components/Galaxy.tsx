@@ -1,97 +1,45 @@
-import { useEffect, useMemo } from 'react'
+import { useEffect, useMemo, useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
 import { useStore } from '../store'
-import type { FolderNode } from '../types'
-import SolarSystem, { countDescendants } from './SolarSystem'
+import SolarSystem from './SolarSystem'
+import GravityWells from './GravityWells'
+import ImportLanes from './ImportLanes'
+import RenameTrails from './RenameTrails'
 import * as THREE from 'three'
 import { PERFORMANCE } from '../config/performance'
-
-interface SystemData {
-  folder: FolderNode
-  position: [number, number, number]
-  depth: number
-  totalChildren: number
-  parentPath: string | null
+import { subscribeToRepoChanges } from '../utils/repoApi'
+import { useHistoryPlayback } from '../hooks/useHistoryPlayback'
+import { useGalaxyLayout } from '../hooks/useGalaxyLayout'
+import { computeCoChange } from '../utils/coChange'
+import { LAYOUT_STRATEGIES } from '../utils/layoutStrategies'
+
+// Below this squared distance a gliding leyline end counts as arrived
+const LEYLINE_SETTLED_SQ = 1
+
+// Write a slightly arced curve between two points into a line's positions
+function writeArc(geometry: THREE.BufferGeometry, start: THREE.Vector3, end: THREE.Vector3) {
+  const mid = new THREE.Vector3().lerpVectors(start, end, 0.5)
+  mid.y += (end.distanceTo(start) * 0.05) // Slight arc
+
+  const curve = new THREE.QuadraticBezierCurve3(start, mid, end)
+  const positions = geometry.getAttribute('position') as THREE.BufferAttribute
+  curve.getPoints(PERFORMANCE.connections.curvePoints).forEach((point, i) => {
+    positions.setXYZ(i, point.x, point.y, point.z)
+  })
+  positions.needsUpdate = true
+  geometry.computeBoundingSphere()
 }
 
-// Layout all folders in a galaxy formation
-function layoutAllSystems(root: FolderNode): SystemData[] {
-  const systems: SystemData[] = []
-
-  // Much larger spacing for the expanded galaxy
-  const BASE_SPACING = 3000
-  const DEPTH_SPACING = 2000
-
-  function collectFolders(
-    node: FolderNode,
-    depth: number,
-    parentAngle: number,
-    parentRadius: number,
-    _parentPath: string | null
-  ) {
-    const childFolders = node.children.filter((c): c is FolderNode => c.type === 'folder')
-    const numSiblings = childFolders.length
-
-    childFolders.forEach((child, index) => {
-      // Spiral arm positioning with more spread
-      const armAngle = parentAngle + (index / Math.max(numSiblings, 1)) * Math.PI * 2
-      const spiralOffset = depth * 0.4
-
-      const radius = parentRadius + BASE_SPACING + depth * DEPTH_SPACING
-      const angle = armAngle + spiralOffset
-
-      // Much more dramatic vertical spread - full 3D distribution
-      // Use a combination of factors to create varied heights
-      const baseVertical = 3000 + depth * 1500
-      const indexVariation = Math.sin(index * 2.7 + depth * 1.3) + Math.cos(index * 1.9)
-      const depthVariation = Math.cos(depth * 0.8 + index * 0.5)
-      const y = indexVariation * baseVertical * 0.5 + depthVariation * baseVertical * 0.3
-
-      const x = Math.cos(angle) * radius + (Math.sin(index * 2.1) * 0.3 - 0.15) * 800
-      const z = Math.sin(angle) * radius + (Math.cos(index * 1.7) * 0.3 - 0.15) * 800
-
-      const totalChildren = countDescendants(child)
-
-      systems.push({
-        folder: child,
-        position: [x, y, z],
-        depth,
-        totalChildren,
-        parentPath: node.path,
-      })
-
-      // Recursively add nested folders
-      collectFolders(child, depth + 1, angle, radius, child.path)
-    })
-  }
-
-  // Start from root's children (depth 0 = top-level folders like src, public, etc.)
-  collectFolders(root, 0, 0, 0, root.path)
-
-  return systems
-}
-
-// Leyline connection between parent and child folders
+// Leyline connection between parent and child folders. Its ends glide to new
+// layout positions at the same rate as the systems they join.
 function Leyline({ start, end, parentDepth }: {
   start: [number, number, number]
   end: [number, number, number]
   parentDepth: number
 }) {
-  const points = useMemo(() => {
-    const startVec = new THREE.Vector3(...start)
-    const endVec = new THREE.Vector3(...end)
-
-    // Create a slight curve for the leyline
-    const mid = new THREE.Vector3().lerpVectors(startVec, endVec, 0.5)
-    mid.y += (endVec.distanceTo(startVec) * 0.05) // Slight arc
-
-    const curve = new THREE.QuadraticBezierCurve3(startVec, mid, endVec)
-    return curve.getPoints(PERFORMANCE.connections.curvePoints)
-  }, [start, end])
-
-  const geometry = useMemo(() => {
-    const geo = new THREE.BufferGeometry().setFromPoints(points)
-    return geo
-  }, [points])
+  const targetStart = useMemo(() => new THREE.Vector3(...start), [start])
+  const targetEnd = useMemo(() => new THREE.Vector3(...end), [end])
+  const ends = useRef<{ start: THREE.Vector3; end: THREE.Vector3 } | null>(null)
 
   // Color based on parent depth - bluer for higher level connections
   const color = useMemo(() => {
@@ -101,6 +49,10 @@ function Leyline({ start, end, parentDepth }: {
   }, [parentDepth])
 
   const line = useMemo(() => {
+    const points = new Float32Array((PERFORMANCE.connections.curvePoints + 1) * 3)
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute('position', new THREE.BufferAttribute(points, 3))
+
     const material = new THREE.LineBasicMaterial({
       color,
       transparent: true,
@@ -109,24 +61,77 @@ function Leyline({ start, end, parentDepth }: {
       blending: THREE.AdditiveBlending,
     })
     return new THREE.Line(geometry, material)
-  }, [geometry, color])
+  }, [color])
+
+  useEffect(() => () => {
+    line.geometry.dispose()
+    ;(line.material as THREE.Material).dispose()
+  }, [line])
+
+  useFrame((_, delta) => {
+    // Drawn where it belongs on the first frame, then follows layout changes
+    if (!ends.current) {
+      ends.current = { start: targetStart.clone(), end: targetEnd.clone() }
+    } else if (
+      ends.current.start.distanceToSquared(targetStart) < LEYLINE_SETTLED_SQ &&
+      ends.current.end.distanceToSquared(targetEnd) < LEYLINE_SETTLED_SQ &&
+      line.geometry.boundingSphere
+    ) {
+      return
+    } else {
+      const t = 1 - Math.exp(-delta * PERFORMANCE.folders.animation.slideRate)
+      ends.current.start.lerp(targetStart, t)
+      ends.current.end.lerp(targetEnd, t)
+    }
+    writeArc(line.geometry, ends.current.start, ends.current.end)
+  })
 
   return <primitive object={line} />
 }
 
 export default function Galaxy() {
-  const { rootNode, loadRepo } = useStore()
+  const {
+    rootNode: liveRoot,
+    branchRoot,
+    historyRoot,
+    comparison,
+    viewMode,
+    pinnedSystems,
+    layoutStrategy,
+    showGravityWells,
+    importLanes,
+    commits,
+    loadRepo,
+    applyRepoChanges,
+  } = useStore()
+
+  // Explore mode shows the working tree or a branch viewed read-only, history mode
+  // the tree as of the selected commit, and compare mode the compared head with
+  // removed files kept in place
+  let rootNode = branchRoot ?? liveRoot
+  if (viewMode === 'history' && historyRoot) rootNode = historyRoot
+  if (viewMode === 'compare' && comparison) rootNode = comparison.root
 
   // Load repo on mount
   useEffect(() => {
     loadRepo()
   }, [loadRepo])
 
-  // Calculate all solar system positions
-  const systems = useMemo(() => {
-    if (!rootNode) return []
-    return layoutAllSystems(rootNode)
-  }, [rootNode])
+  // Patch the galaxy in place as files change on disk
+  useEffect(() => subscribeToRepoChanges(applyRepoChanges), [applyRepoChanges])
+
+  // Rebuild the galaxy per commit and run the playback timer
+  useHistoryPlayback()
+
+  // Folders that change together, from the loaded history. Only the coupled
+  // layout and the gravity wells use it, so skip the scan when neither is on.
+  const coupling = useMemo(() => {
+    if (!rootNode || !(LAYOUT_STRATEGIES[layoutStrategy].coupled || showGravityWells)) return []
+    return computeCoChange(commits, rootNode)
+  }, [commits, rootNode, layoutStrategy, showGravityWells])
+
+  // Solar system positions, streamed in from the layout worker
+  const systems = useGalaxyLayout(rootNode, pinnedSystems, layoutStrategy, coupling)
 
   // Create position lookup for leylines
   const positionMap = useMemo(() => {
@@ -142,6 +147,7 @@ export default function Galaxy() {
   // Generate leyline connections
   const leylines = useMemo(() => {
     const lines: Array<{
+      path: string
       start: [number, number, number]
       end: [number, number, number]
       parentDepth: number
@@ -152,6 +158,7 @@ export default function Galaxy() {
         const parentPos = positionMap.get(sys.parentPath)
         if (parentPos) {
           lines.push({
+            path: sys.folder.path,
             start: parentPos,
             end: sys.position,
             parentDepth: sys.depth,
@@ -170,10 +177,19 @@ export default function Galaxy() {
   return (
     <group>
       {/* Leyline connections between folders */}
-      {leylines.map((line, i) => (
-        <Leyline key={`leyline-${i}`} {...line} />
+      {leylines.map(({ path, ...line }) => (
+        <Leyline key={path} {...line} />
       ))}
 
+      {/* Gravity wells between folders that change together */}
+      {showGravityWells && <GravityWells coupling={coupling} positions={positionMap} />}
+
+      {/* Import dependencies between planets */}
+      {importLanes !== 'off' && <ImportLanes />}
+
+      {/* Renamed files, from where they were to where they went */}
+      {viewMode === 'compare' && comparison && <RenameTrails comparison={comparison} />}
+
       {/* Render each folder as a solar system with its file planets */}
       {systems.map(({ folder, position, depth, totalChildren }) => (
         <SolarSystem
@@ -0,0 +1,59 @@
+import { useEffect, useMemo } from 'react'
+import * as THREE from 'three'
+import { PERFORMANCE } from '../config/performance'
+import type { CoChangeLink } from '../utils/coChange'
+
+// Straight pieces per well curve
+const WELL_SEGMENTS = 24
+
+// Curves dipping between strongly coupled systems, brighter the stronger the
+// coupling. All wells share one geometry, rebuilt as systems move.
+export default function GravityWells({ coupling, positions }: {
+  coupling: CoChangeLink[]
+  positions: Map<string, [number, number, number]>
+}) {
+  const wells = useMemo(() => {
+    const { minStrength, max, sag, color, opacity } = PERFORMANCE.coupling.wells
+    const baseColor = new THREE.Color(color)
+    const vertices: number[] = []
+    const colors: number[] = []
+
+    const strongest = coupling
+      .filter((link) => link.strength >= minStrength && positions.has(link.a) && positions.has(link.b))
+      .slice(0, max)
+
+    for (const { a, b, strength } of strongest) {
+      const start = new THREE.Vector3(...positions.get(a)!)
+      const end = new THREE.Vector3(...positions.get(b)!)
+      const mid = new THREE.Vector3().lerpVectors(start, end, 0.5)
+      mid.y -= start.distanceTo(end) * sag
+
+      const points = new THREE.QuadraticBezierCurve3(start, mid, end).getPoints(WELL_SEGMENTS)
+      const { r, g, b: blue } = baseColor.clone().multiplyScalar(strength)
+      for (let i = 0; i < points.length - 1; i++) {
+        vertices.push(...points[i].toArray(), ...points[i + 1].toArray())
+        colors.push(r, g, blue, r, g, blue)
+      }
+    }
+
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3))
+    geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3))
+
+    const material = new THREE.LineBasicMaterial({
+      vertexColors: true,
+      transparent: true,
+      opacity,
+      depthWrite: false,
+      blending: THREE.AdditiveBlending,
+    })
+    return new THREE.LineSegments(geometry, material)
+  }, [coupling, positions])
+
+  useEffect(() => () => {
+    wells.geometry.dispose()
+    ;(wells.material as THREE.Material).dispose()
+  }, [wells])
+
+  return <primitive object={wells} />
+}
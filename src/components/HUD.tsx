@@ -1,6 +1,15 @@
 import { useStore } from '../store'
 import type { ShipType } from '../store'
 import { SHIP_INFO } from './Spaceship'
+import ChangesPanel from './ChangesPanel'
+import ComparePanel from './ComparePanel'
+import BranchPicker from './BranchPicker'
+import MetricMappingPanel from './MetricMappingPanel'
+import HotspotsPanel from './HotspotsPanel'
+import { PERFORMANCE } from '../config/performance'
+import { getSystemPosition } from '../hooks/useGalaxyLayout'
+import { findNode } from '../utils/gitParser'
+import { LAYOUT_STRATEGIES, type LayoutStrategyId } from '../utils/layoutStrategies'
 import './HUD.css'
 
 const SHIP_TYPES: ShipType[] = ['falcon', 'viper', 'hauler', 'explorer', 'custom']
@@ -8,16 +17,30 @@ const SHIP_TYPES: ShipType[] = ['falcon', 'viper', 'hauler', 'explorer', 'custom
 export default function HUD() {
   const {
     repoInfo,
+    rootNode,
     viewMode,
     cameraMode,
+    layoutStrategy,
+    showGravityWells,
+    imports,
+    importLanes,
     selectedNode,
     setViewMode,
     setCameraMode,
+    setLayoutStrategy,
+    setShowGravityWells,
+    setImportLanes,
     commits,
+    totalCommits,
+    hasMoreCommits,
+    isLoadingCommits,
+    loadMoreCommits,
     historyIndex,
     isPlaying,
+    playbackSpeed,
     setHistoryIndex,
     togglePlayback,
+    setPlaybackSpeed,
     nextCommit,
     prevCommit,
     viewLevel,
@@ -25,13 +48,32 @@ export default function HUD() {
     exitSystem,
     selectedShip,
     setSelectedShip,
+    expandFolder,
+    pinnedSystems,
+    pinSystem,
+    unpinSystem,
     flightState,
     showSettings,
     setShowSettings,
+    showOpenRepo,
+    setShowOpenRepo,
+    showChanges,
+    setShowChanges,
+    showMetricMapping,
+    setShowMetricMapping,
+    showHotspots,
+    setShowHotspots,
+    workingFiles,
+    landingState,
+    nearestPlanet,
+    openEditorTab,
   } = useStore()
 
   const currentCommit = commits[historyIndex]
 
+  const playbackSpeeds: readonly number[] = PERFORMANCE.history.speeds
+  const nextPlaybackSpeed = playbackSpeeds[(playbackSpeeds.indexOf(playbackSpeed) + 1) % playbackSpeeds.length]
+
   return (
     <div className="hud">
       {/* Top bar - repo info */}
@@ -50,10 +92,19 @@ export default function HUD() {
               → ☀️ {currentSystem.name}
             </span>
           )}
-          <span className="repo-branch">
-            <span className="branch-icon">⎇</span>
-            {repoInfo?.branch || 'main'}
-          </span>
+          <BranchPicker />
+          {repoInfo?.headCommit && (
+            <span className="repo-head" title={repoInfo.headCommit}>
+              {repoInfo.headCommit.slice(0, 7)}
+            </span>
+          )}
+          {repoInfo?.upstream && (repoInfo.ahead > 0 || repoInfo.behind > 0) && (
+            <span className="repo-sync" title={`Compared to ${repoInfo.upstream}`}>
+              {repoInfo.ahead > 0 && `↑${repoInfo.ahead}`}
+              {repoInfo.ahead > 0 && repoInfo.behind > 0 && ' '}
+              {repoInfo.behind > 0 && `↓${repoInfo.behind}`}
+            </span>
+          )}
         </div>
 
         <div className="hud-controls">
@@ -71,6 +122,12 @@ export default function HUD() {
             >
               📜 History
             </button>
+            <button
+              className={`hud-btn ${viewMode === 'compare' ? 'active' : ''}`}
+              onClick={() => setViewMode('compare')}
+            >
+              ⚖️ Compare
+            </button>
           </div>
 
           {/* Camera mode toggle */}
@@ -89,6 +146,67 @@ export default function HUD() {
             </button>
           </div>
 
+          {/* Galaxy layout */}
+          <div className="control-group">
+            <select
+              className="hud-select"
+              value={layoutStrategy}
+              onChange={(e) => setLayoutStrategy(e.target.value as LayoutStrategyId)}
+              title="Galaxy layout"
+            >
+              {Object.entries(LAYOUT_STRATEGIES).map(([id, strategy]) => (
+                <option key={id} value={id}>{strategy.label}</option>
+              ))}
+            </select>
+            <button
+              className={`hud-btn ${showGravityWells ? 'active' : ''}`}
+              onClick={() => setShowGravityWells(!showGravityWells)}
+              title="Show folders that change together"
+            >
+              🕳️ Wells
+            </button>
+            <button
+              className={`hud-btn ${importLanes === 'all' ? 'active' : ''}`}
+              onClick={() => setImportLanes(importLanes === 'all' ? 'off' : 'all')}
+              title="Show import lanes between all planets"
+            >
+              🛰️ Lanes
+            </button>
+            <button
+              className={`hud-btn ${showHotspots ? 'active' : ''}`}
+              onClick={() => setShowHotspots(!showHotspots)}
+              title="Glow files and folders by churn × size"
+            >
+              🔥 Hotspots
+            </button>
+          </div>
+
+          {repoInfo?.branch && (
+            <button
+              className={`settings-btn ${showChanges ? 'active' : ''}`}
+              onClick={() => setShowChanges(!showChanges)}
+              title="Stage and commit changes"
+            >
+              ± Changes{workingFiles.length > 0 && ` (${workingFiles.length})`}
+            </button>
+          )}
+
+          <button
+            className={`settings-btn ${showMetricMapping ? 'active' : ''}`}
+            onClick={() => setShowMetricMapping(!showMetricMapping)}
+            title="Choose what planet size, color and motion show"
+          >
+            🎛️ Mapping
+          </button>
+
+          <button
+            className={`settings-btn ${showOpenRepo ? 'active' : ''}`}
+            onClick={() => setShowOpenRepo(true)}
+            title={repoInfo?.path}
+          >
+            📂 Open
+          </button>
+
           <button
             className={`settings-btn ${showSettings ? 'active' : ''}`}
             onClick={() => setShowSettings(true)}
@@ -110,6 +228,18 @@ export default function HUD() {
         </div>
       </div>
 
+      {/* Left - uncommitted changes */}
+      <ChangesPanel />
+
+      {/* Right - compare mode sidebar */}
+      <ComparePanel />
+
+      {/* Right - planet metric mapping and its legend, then hotspots */}
+      <div className="hud-right-column">
+        <MetricMappingPanel />
+        <HotspotsPanel />
+      </div>
+
       {/* Bottom left - controls help */}
       <div className="hud-bottom-left">
         {cameraMode === 'fly' ? (
@@ -127,9 +257,17 @@ export default function HUD() {
             <div className="help-row">
               <kbd>Shift</kbd> Boost
             </div>
+            <div className="help-row">
+              <kbd>L</kbd> Land and edit
+            </div>
             <div className="help-row">
               <kbd>ESC</kbd> Exit fly mode
             </div>
+            {landingState === 'approaching' && nearestPlanet && (
+              <div className="help-row landing-prompt">
+                Press <kbd>L</kbd> to land on {nearestPlanet.node.name}
+              </div>
+            )}
             <div className="help-row">
               <span className="hint">Click to capture mouse</span>
             </div>
@@ -170,11 +308,57 @@ export default function HUD() {
               <div className="node-meta">
                 <span className="extension">.{selectedNode.extension}</span>
                 <span className="size">{(selectedNode.size / 1000).toFixed(1)} KB</span>
+                {/* Files shown only in history or compare mode can't be opened */}
+                {rootNode && findNode(rootNode, selectedNode.path) && (
+                  <button className="edit-btn" onClick={() => openEditorTab(selectedNode)} title="Open in the editor">
+                    ✏️ Land / Edit
+                  </button>
+                )}
+              </div>
+            )}
+            {selectedNode.type === 'file' && (
+              <div className="node-meta node-imports">
+                <span title="Files this one imports">
+                  ↗ {imports.filter((edge) => edge.from === selectedNode.path).length} out
+                </span>
+                <span title="Files importing this one">
+                  ↙ {imports.filter((edge) => edge.to === selectedNode.path).length} in
+                </span>
+                <button
+                  className={`pin-btn ${importLanes === 'selected' ? 'pinned' : ''}`}
+                  onClick={() => setImportLanes(importLanes === 'selected' ? 'off' : 'selected')}
+                  title="Show this file's import lanes"
+                >
+                  🛰️ Lanes
+                </button>
               </div>
             )}
             {selectedNode.type === 'folder' && (
               <div className="node-meta">
-                <span className="children">{selectedNode.children.length} bodies</span>
+                {selectedNode.collapsed ? (
+                  <button className="expand-btn" onClick={() => expandFolder(selectedNode.path)}>
+                    ✦ Expand ignored system
+                  </button>
+                ) : (
+                  <span className="children">{selectedNode.children.length} bodies</span>
+                )}
+                {selectedNode.ignored && <span className="ignored">ignored</span>}
+                {pinnedSystems[selectedNode.path] ? (
+                  <button className="pin-btn pinned" onClick={() => unpinSystem(selectedNode.path)}>
+                    📌 Pinned
+                  </button>
+                ) : (
+                  <button
+                    className="pin-btn"
+                    onClick={() => {
+                      const position = getSystemPosition(selectedNode.path)
+                      if (position) pinSystem(selectedNode.path, position)
+                    }}
+                    title="Keep this system where it is when the layout changes"
+                  >
+                    📌 Pin
+                  </button>
+                )}
               </div>
             )}
           </div>
@@ -249,6 +433,26 @@ export default function HUD() {
             >
               ⏭
             </button>
+            <button
+              className="timeline-btn speed"
+              onClick={() => setPlaybackSpeed(nextPlaybackSpeed)}
+              title="Playback speed"
+            >
+              {playbackSpeed}×
+            </button>
+            <span className="timeline-count">
+              {historyIndex + 1} / {totalCommits}
+            </span>
+            {hasMoreCommits && (
+              <button
+                className="timeline-btn"
+                onClick={loadMoreCommits}
+                disabled={isLoadingCommits}
+                title="Load older commits"
+              >
+                {isLoadingCommits ? '…' : '⏬'}
+              </button>
+            )}
           </div>
 
           <div className="timeline-track">
@@ -290,6 +494,7 @@ export default function HUD() {
                       {f.status === 'added' && '+'}
                       {f.status === 'modified' && '~'}
                       {f.status === 'deleted' && '-'}
+                      {f.status === 'renamed' && '→'}
                     </span>
                     {f.path.split('/').pop()}
                   </div>
@@ -0,0 +1,82 @@
+import { useCallback } from 'react'
+import { useStore, useHotspots } from '../store'
+import { getPlanetPosition } from '../hooks/useProximityDetection'
+import { HOTSPOT_WINDOWS, heatColor, windowStart, type HotspotWindowId } from '../utils/hotspots'
+import './HotspotsPanel.css'
+
+// The hottest files by churn × size, each a warp away
+export default function HotspotsPanel() {
+  const {
+    viewMode,
+    commits,
+    hasMoreCommits,
+    isLoadingCommits,
+    hotspotWindow,
+    setHotspotWindow,
+    setShowHotspots,
+    travelTo,
+    selectNode,
+  } = useStore()
+  const hotspots = useHotspots()
+
+  const warpToFile = useCallback((path: string) => {
+    const position = getPlanetPosition(path)
+    if (!position) return
+    travelTo({ x: position.x, y: position.y, z: position.z })
+
+    const hotspot = hotspots?.byPath[path]
+    if (hotspot) selectNode(hotspot.file)
+  }, [hotspots, travelTo, selectNode])
+
+  // Compare mode shows another tree in the same spot
+  if (!hotspots || viewMode === 'compare') return null
+
+  // Whether the loaded history reaches back to the start of the window
+  const start = windowStart(commits, hotspotWindow)
+  const isPartial = hasMoreCommits && (start === null || commits[commits.length - 1].date >= start)
+
+  return (
+    <div className="hotspots-panel">
+      <div className="hotspots-header">
+        <span className="hotspots-title">🔥 Hotspots</span>
+        <select
+          className="hotspots-window"
+          value={hotspotWindow}
+          onChange={(e) => setHotspotWindow(e.target.value as HotspotWindowId)}
+          title="Time window churn is counted over"
+        >
+          {Object.entries(HOTSPOT_WINDOWS).map(([id, window]) => (
+            <option key={id} value={id}>{window.label}</option>
+          ))}
+        </select>
+        <button className="hotspots-close" onClick={() => setShowHotspots(false)}>✕</button>
+      </div>
+
+      <div className="hotspots-summary">
+        Commits × lines changed × size, over {commits.length} commit{commits.length === 1 ? '' : 's'}
+        {isLoadingCommits ? ' (loading more…)' : isPartial && ' (older history not loaded)'}
+      </div>
+
+      {hotspots.ranked.length === 0 && <div className="hotspots-empty">No changes in this window</div>}
+
+      {hotspots.ranked.map((hotspot, index) => {
+        const { file } = hotspot
+        return (
+          <div key={file.path} className="hotspot" title={file.path}>
+            <span className="hotspot-rank">{index + 1}</span>
+            <span className="hotspot-heat" style={{ background: `#${heatColor(hotspot.heat).getHexString()}` }} />
+            <div className="hotspot-file">
+              <span className="hotspot-name">{file.name}</span>
+              <span className="hotspot-stats">
+                {hotspot.commits} commit{hotspot.commits === 1 ? '' : 's'} · ±{hotspot.linesChanged} lines
+              </span>
+            </div>
+            <button className="hotspot-warp" onClick={() => warpToFile(file.path)} title="Warp to this planet">
+              🚀
+            </button>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+import { useEffect, useMemo } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+import { useStore } from '../store'
+import { PERFORMANCE } from '../config/performance'
+import { getPlanetPosition } from '../hooks/useProximityDetection'
+
+// Spreads pulses along their lanes so they don't all travel in step
+const GOLDEN_RATIO = 0.618033988749895
+
+// Import dependencies as lanes between planets, fading in from the importing file
+// and carrying pulses towards the imported one. Lanes follow the planets as they
+// orbit; lanes to planets that aren't in the scene are skipped.
+export default function ImportLanes() {
+  const imports = useStore((s) => s.imports)
+  const importLanes = useStore((s) => s.importLanes)
+  const selectedPath = useStore((s) => s.selectedNode?.path ?? null)
+
+  const edges = useMemo(() => {
+    if (importLanes === 'all') return imports.slice(0, PERFORMANCE.imports.maxLanes)
+    if (importLanes === 'selected' && selectedPath) {
+      return imports.filter((edge) => edge.from === selectedPath || edge.to === selectedPath)
+    }
+    return []
+  }, [imports, importLanes, selectedPath])
+
+  const { lanes, pulses } = useMemo(() => {
+    const cfg = PERFORMANCE.imports
+    const head = new THREE.Color(cfg.laneColor)
+    const tail = head.clone().multiplyScalar(cfg.tailBrightness)
+
+    const laneGeometry = new THREE.BufferGeometry()
+    const colors = new Float32Array(edges.length * 6)
+    for (let i = 0; i < edges.length; i++) {
+      tail.toArray(colors, i * 6)
+      head.toArray(colors, i * 6 + 3)
+    }
+    laneGeometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(edges.length * 6), 3))
+    laneGeometry.setAttribute('color', new THREE.BufferAttribute(colors, 3))
+
+    const pulseGeometry = new THREE.BufferGeometry()
+    pulseGeometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(edges.length * 3), 3))
+
+    const lanes = new THREE.LineSegments(laneGeometry, new THREE.LineBasicMaterial({
+      vertexColors: true,
+      transparent: true,
+      opacity: cfg.laneOpacity,
+      depthWrite: false,
+      blending: THREE.AdditiveBlending,
+    }))
+    const pulses = new THREE.Points(pulseGeometry, new THREE.PointsMaterial({
+      color: cfg.pulseColor,
+      size: cfg.pulseSize,
+      transparent: true,
+      depthWrite: false,
+      blending: THREE.AdditiveBlending,
+    }))
+
+    // Ends move every frame, so bounds would always be stale
+    lanes.frustumCulled = false
+    pulses.frustumCulled = false
+    return { lanes, pulses }
+  }, [edges])
+
+  useEffect(() => () => {
+    for (const object of [lanes, pulses]) {
+      object.geometry.dispose()
+      ;(object.material as THREE.Material).dispose()
+    }
+  }, [lanes, pulses])
+
+  useFrame((state) => {
+    const lanePositions = lanes.geometry.getAttribute('position') as THREE.BufferAttribute
+    const pulsePositions = pulses.geometry.getAttribute('position') as THREE.BufferAttribute
+    const travelled = state.clock.elapsedTime * PERFORMANCE.imports.pulseSpeed
+    let drawn = 0
+
+    edges.forEach(({ from, to }, i) => {
+      const start = getPlanetPosition(from)
+      const end = getPlanetPosition(to)
+      if (!start || !end) return
+
+      lanePositions.setXYZ(drawn * 2, start.x, start.y, start.z)
+      lanePositions.setXYZ(drawn * 2 + 1, end.x, end.y, end.z)
+
+      const progress = (travelled + i * GOLDEN_RATIO) % 1
+      pulsePositions.setXYZ(
+        drawn,
+        start.x + (end.x - start.x) * progress,
+        start.y + (end.y - start.y) * progress,
+        start.z + (end.z - start.z) * progress
+      )
+      drawn++
+    })
+
+    lanes.geometry.setDrawRange(0, drawn * 2)
+    pulses.geometry.setDrawRange(0, drawn)
+    lanePositions.needsUpdate = true
+    pulsePositions.needsUpdate = true
+  })
+
+  return (
+    <>
+      <primitive object={lanes} />
+      <primitive object={pulses} />
+    </>
+  )
+}
@@ -0,0 +1,79 @@
+import { useMemo } from 'react'
+import {
+  CONFLICT_BASE,
+  CONFLICT_END,
+  CONFLICT_SEPARATOR,
+  CONFLICT_START,
+  splitLines,
+  type MergeResult,
+} from '../utils/lineDiff'
+
+type MergeLineKind = 'clean' | 'marker' | 'ours' | 'base' | 'theirs'
+
+interface MergeViewProps {
+  result: MergeResult
+  onAccept: () => void
+  onCancel: () => void
+}
+
+// Classify each merged line so conflict blocks can be tinted per side
+function classifyLines(text: string): { text: string; kind: MergeLineKind }[] {
+  let section: MergeLineKind = 'clean'
+  return splitLines(text).map((line) => {
+    if (line === CONFLICT_START) {
+      section = 'ours'
+      return { text: line, kind: 'marker' }
+    }
+    if (section !== 'clean' && line === CONFLICT_BASE) {
+      section = 'base'
+      return { text: line, kind: 'marker' }
+    }
+    if (section !== 'clean' && line === CONFLICT_SEPARATOR) {
+      section = 'theirs'
+      return { text: line, kind: 'marker' }
+    }
+    if (section !== 'clean' && line === CONFLICT_END) {
+      section = 'clean'
+      return { text: line, kind: 'marker' }
+    }
+    return { text: line, kind: section }
+  })
+}
+
+// Read-only preview of a three-way merge between the opened, edited and on-disk versions
+export default function MergeView({ result, onAccept, onCancel }: MergeViewProps) {
+  const lines = useMemo(() => classifyLines(result.text), [result.text])
+
+  return (
+    <div className="merge-view">
+      <div className="merge-toolbar">
+        <span className={`merge-summary ${result.conflicts > 0 ? 'conflicted' : 'clean'}`}>
+          {result.conflicts > 0
+            ? `${result.conflicts} conflict${result.conflicts === 1 ? '' : 's'} to resolve after merging`
+            : 'Merged cleanly'}
+        </span>
+        <div className="merge-legend">
+          <span className="merge-swatch ours">yours</span>
+          <span className="merge-swatch base">original</span>
+          <span className="merge-swatch theirs">on disk</span>
+        </div>
+        <div className="merge-actions">
+          <button className="editor-btn save" onClick={onAccept}>
+            ✓ Use Merge
+          </button>
+          <button className="editor-btn" onClick={onCancel}>
+            ← Back
+          </button>
+        </div>
+      </div>
+      <pre className="merge-lines">
+        {lines.map((line, i) => (
+          <div key={i} className={`merge-line ${line.kind}`}>
+            <span className="merge-line-number">{i + 1}</span>
+            {line.text || ' '}
+          </div>
+        ))}
+      </pre>
+    </div>
+  )
+}
@@ -0,0 +1,124 @@
+import { useStore } from '../store'
+import { PERFORMANCE } from '../config/performance'
+import {
+  CHANNELS,
+  DEFAULT_METRIC_MAPPING,
+  METRICS,
+  metricColor,
+  type MetricId,
+  type MetricMapping,
+  type VisualChannel,
+} from '../utils/metricMapping'
+import './MetricMappingPanel.css'
+
+const CHANNEL_ORDER: VisualChannel[] = ['radius', 'hue', 'glow', 'rotation', 'orbit']
+const METRIC_ORDER: MetricId[] = ['bytes', 'lines', 'commits', 'age', 'authors', 'complexity']
+
+// Swatches for the hue legend, one per step planets are colored in
+const { hueSteps } = PERFORMANCE.metricMapping
+const HUE_SWATCHES = Array.from({ length: hueSteps }, (_, i) => `#${metricColor(i / (hueSteps - 1)).getHexString()}`)
+
+function isDefaultMapping(mapping: MetricMapping): boolean {
+  return CHANNEL_ORDER.every((channel) => mapping[channel] === DEFAULT_METRIC_MAPPING[channel])
+}
+
+// What each channel currently shows, generated from the mapping
+function Legend({ mapping }: { mapping: MetricMapping }) {
+  return (
+    <div className="mapping-legend">
+      {CHANNEL_ORDER.map((channel) => {
+        const { label, low, high, unmapped } = CHANNELS[channel]
+        const metricId = mapping[channel]
+        if (!metricId) {
+          return (
+            <div key={channel} className="legend-row">
+              <span className="legend-channel">{label}</span>
+              <span className="legend-unmapped">{unmapped}</span>
+            </div>
+          )
+        }
+
+        const metric = METRICS[metricId]
+        const [min, max] = metric.domain
+        return (
+          <div key={channel} className="legend-row">
+            <span className="legend-channel">{label}</span>
+            <span className="legend-metric">{metric.label}</span>
+            {channel === 'hue' && (
+              <div className="legend-swatches">
+                {HUE_SWATCHES.map((color) => <span key={color} style={{ background: color }} />)}
+              </div>
+            )}
+            <div className="legend-scale">
+              <span>{low}: {metric.format(min)}</span>
+              <span>{high}: {metric.format(max)}+</span>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+// Binds planet radius, hue, glow, spin and orbit to file metrics, with a legend.
+// While closed, a changed mapping keeps its legend on screen.
+export default function MetricMappingPanel() {
+  const {
+    viewMode,
+    metricMapping,
+    fileMetrics,
+    showMetricMapping,
+    setMetricMapping,
+    setShowMetricMapping,
+  } = useStore()
+
+  const hasServerMetrics = Object.keys(fileMetrics).length > 0
+  const isDefault = isDefaultMapping(metricMapping)
+
+  if (!showMetricMapping) {
+    // The compare sidebar sits in the same spot
+    if (isDefault || viewMode === 'compare') return null
+    return (
+      <div className="mapping-panel legend-only">
+        <Legend mapping={metricMapping} />
+      </div>
+    )
+  }
+
+  return (
+    <div className="mapping-panel">
+      <div className="mapping-header">
+        <span className="mapping-title">🎛️ Planet mapping</span>
+        <button
+          className="mapping-reset"
+          onClick={() => CHANNEL_ORDER.forEach((channel) => setMetricMapping(channel, DEFAULT_METRIC_MAPPING[channel]))}
+          disabled={isDefault}
+        >
+          Reset
+        </button>
+        <button className="mapping-close" onClick={() => setShowMetricMapping(false)}>✕</button>
+      </div>
+
+      {CHANNEL_ORDER.map((channel) => (
+        <label key={channel} className="mapping-row">
+          <span>{CHANNELS[channel].label}</span>
+          <select
+            value={metricMapping[channel] ?? ''}
+            onChange={(e) => setMetricMapping(channel, (e.target.value || null) as MetricId | null)}
+          >
+            <option value="">{CHANNELS[channel].unmapped}</option>
+            {METRIC_ORDER.map((metric) => (
+              <option key={metric} value={metric} disabled={METRICS[metric].fromServer && !hasServerMetrics}>
+                {METRICS[metric].label}
+                {METRICS[metric].fromServer && !hasServerMetrics && ' (needs the dev server)'}
+              </option>
+            ))}
+          </select>
+        </label>
+      ))}
+
+      <div className="mapping-section-title">Legend</div>
+      <Legend mapping={metricMapping} />
+    </div>
+  )
+}
@@ -0,0 +1,104 @@
+import { useEffect, useState, useCallback } from 'react'
+import { useStore } from '../store'
+import { fetchRecentRepos, type RecentRepos } from '../utils/repoApi'
+import './OpenRepoDialog.css'
+
+export default function OpenRepoDialog() {
+  const { showOpenRepo, setShowOpenRepo, openRepo } = useStore()
+  const [repoPath, setRepoPath] = useState('')
+  const [recent, setRecent] = useState<RecentRepos | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isOpening, setIsOpening] = useState(false)
+
+  // Refresh the recent list every time the dialog opens
+  useEffect(() => {
+    if (!showOpenRepo) return
+
+    fetchRecentRepos()
+      .then(setRecent)
+      .catch((err) => setError(err.message))
+  }, [showOpenRepo])
+
+  // Handle ESC key to close
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && showOpenRepo) {
+        setShowOpenRepo(false)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [showOpenRepo, setShowOpenRepo])
+
+  const handleOpen = useCallback(async (path: string) => {
+    if (!path.trim()) return
+
+    setIsOpening(true)
+    setError(null)
+    try {
+      await openRepo(path.trim())
+      setRepoPath('')
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setIsOpening(false)
+    }
+  }, [openRepo])
+
+  if (!showOpenRepo) return null
+
+  return (
+    <div className="open-repo-overlay" onClick={() => setShowOpenRepo(false)}>
+      <div className="open-repo-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="open-repo-header">
+          <h2>Open Repository</h2>
+          <button className="open-repo-close" onClick={() => setShowOpenRepo(false)}>
+            Close [ESC]
+          </button>
+        </div>
+
+        <form
+          className="open-repo-form"
+          onSubmit={(e) => {
+            e.preventDefault()
+            handleOpen(repoPath)
+          }}
+        >
+          <input
+            className="open-repo-input"
+            type="text"
+            placeholder="/path/to/repository"
+            value={repoPath}
+            onChange={(e) => setRepoPath(e.target.value)}
+            autoFocus
+            spellCheck={false}
+          />
+          <button className="open-repo-btn" type="submit" disabled={isOpening || !repoPath.trim()}>
+            {isOpening ? 'Opening…' : '📂 Open'}
+          </button>
+        </form>
+
+        {error && <div className="open-repo-error">⚠️ {error}</div>}
+
+        <div className="open-repo-recent">
+          <div className="open-repo-recent-title">Recent</div>
+          {recent && recent.recent.length === 0 && (
+            <div className="open-repo-empty">No repositories opened yet</div>
+          )}
+          {recent?.recent.map((path) => (
+            <button
+              key={path}
+              className={`open-repo-recent-item ${path === recent.current ? 'current' : ''}`}
+              onClick={() => handleOpen(path)}
+              disabled={isOpening}
+            >
+              <span className="recent-name">{path.split('/').filter(Boolean).pop() || path}</span>
+              <span className="recent-path">{path}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -189,6 +189,7 @@ function getPlanetConfig(extension: string, baseColor: THREE.Color) {
     hasRings,
     hasClouds,
     seed: hash,
+    textureKey: hash * 0x1000000 + baseColor.getHex(), // Colored textures differ per color
   }
 }
 
@@ -197,13 +198,15 @@ interface ProceduralPlanetProps {
   color: THREE.Color
   extension: string
   rotationSpeed?: number
+  glow?: number // Atmosphere opacity, relative to the default
 }
 
 export default function ProceduralPlanet({
   size,
   color,
   extension,
-  rotationSpeed = PERFORMANCE.files.animation.rotationSpeed
+  rotationSpeed = PERFORMANCE.files.animation.rotationSpeed,
+  glow = 1
 }: ProceduralPlanetProps) {
   const planetRef = useRef<THREE.Mesh>(null)
   const cloudsRef = useRef<THREE.Mesh>(null)
@@ -217,7 +220,7 @@ export default function ProceduralPlanet({
   const planetTexture = useMemo(
     () => textureCache.getPlanetTexture(
       config.planetType,
-      config.seed,
+      config.textureKey,
       () => createPlanetTexture(color, config.secondary, config.tertiary, config.planetType, config.seed)
     ),
     [color, config]
@@ -246,7 +249,7 @@ export default function ProceduralPlanet({
     if (!config.hasRings) return null
 
     return textureCache.getRingTexture(
-      config.seed,
+      config.textureKey,
       () => {
         const canvas = document.createElement('canvas')
         canvas.width = 256
@@ -289,14 +292,14 @@ export default function ProceduralPlanet({
   useEffect(() => {
     return () => {
       // Release references to cached textures
-      textureCache.releasePlanetTexture(config.planetType, config.seed)
+      textureCache.releasePlanetTexture(config.planetType, config.textureKey)
 
       if (config.hasClouds) {
         textureCache.releaseCloudTexture(config.seed)
       }
 
       if (config.hasRings) {
-        textureCache.releaseRingTexture(config.seed)
+        textureCache.releaseRingTexture(config.textureKey)
       }
 
       // Dispose of ring geometry if it exists (not cached)
@@ -335,7 +338,7 @@ export default function ProceduralPlanet({
         <meshBasicMaterial
           color={color}
           transparent
-          opacity={0.15}
+          opacity={Math.min(0.15 * glow, 1)}
           side={THREE.BackSide}
         />
       </mesh>
@@ -346,7 +349,7 @@ export default function ProceduralPlanet({
         <meshBasicMaterial
           color={color}
           transparent
-          opacity={0.08}
+          opacity={Math.min(0.08 * glow, 1)}
           side={THREE.BackSide}
           blending={THREE.AdditiveBlending}
         />
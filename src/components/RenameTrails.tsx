@@ -0,0 +1,58 @@
+import { useEffect, useMemo } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+import type { Comparison } from '../store'
+import { PERFORMANCE } from '../config/performance'
+import { getPlanetPosition } from '../hooks/useProximityDetection'
+
+// Compare mode: a line from each renamed file's departing planet to its new one.
+// Lines follow the planets as they orbit; renames with an end out of the scene are skipped.
+export default function RenameTrails({ comparison }: { comparison: Comparison }) {
+  const moves = useMemo(
+    () => Object.values(comparison.byPath).flatMap((file): [string, string][] =>
+      file.renamedTo ? [[file.path, file.renamedTo]] : []
+    ),
+    [comparison]
+  )
+
+  const trails = useMemo(() => {
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(moves.length * 6), 3))
+
+    const trails = new THREE.LineSegments(geometry, new THREE.LineBasicMaterial({
+      color: PERFORMANCE.compare.renameTrail.color,
+      transparent: true,
+      opacity: PERFORMANCE.compare.renameTrail.opacity,
+      depthWrite: false,
+      blending: THREE.AdditiveBlending,
+    }))
+    // Ends move every frame, so bounds would always be stale
+    trails.frustumCulled = false
+    return trails
+  }, [moves])
+
+  useEffect(() => () => {
+    trails.geometry.dispose()
+    ;(trails.material as THREE.Material).dispose()
+  }, [trails])
+
+  useFrame(() => {
+    const positions = trails.geometry.getAttribute('position') as THREE.BufferAttribute
+    let drawn = 0
+
+    for (const [from, to] of moves) {
+      const start = getPlanetPosition(from)
+      const end = getPlanetPosition(to)
+      if (!start || !end) continue
+
+      positions.setXYZ(drawn * 2, start.x, start.y, start.z)
+      positions.setXYZ(drawn * 2 + 1, end.x, end.y, end.z)
+      drawn++
+    }
+
+    trails.geometry.setDrawRange(0, drawn * 2)
+    positions.needsUpdate = true
+  })
+
+  return <primitive object={trails} />
+}
@@ -13,6 +13,7 @@ import { PERFORMANCE } from '../config/performance'
 import { contextRecovery } from '../utils/contextRecovery'
 import { detectMemoryLeaks } from '../utils/disposeObject'
 import { useProximityDetection } from '../hooks/useProximityDetection'
+import { useWarp } from '../hooks/useWarp'
 
 // Component to run proximity detection
 function ProximityDetector() {
@@ -20,6 +21,12 @@ function ProximityDetector() {
   return null
 }
 
+// Component to fly the camera to travelTo targets
+function Warp() {
+  useWarp()
+  return null
+}
+
 export default function Scene() {
   const { cameraMode, controlSettings } = useStore()
   const { camera, gl } = useThree()
@@ -132,9 +139,13 @@ export default function Scene() {
       {/* Proximity detection for landing */}
       <ProximityDetector />
 
+      {/* Camera warp to a chosen planet */}
+      <Warp />
+
       {/* Camera controls (5x scale) */}
       {cameraMode === 'orbit' && (
         <OrbitControls
+          makeDefault
           enablePan={true}
           enableZoom={true}
           enableRotate={true}
@@ -143,6 +143,16 @@ export default function ShipControls({ controlSettings }: ShipControlsProps) {
         return
       }
 
+      // Land on the planet in range and open it in the editor
+      if (event.code === 'KeyL') {
+        const { landingState, nearestPlanet, initiateLanding } = useStore.getState()
+        if (landingState === 'approaching' && nearestPlanet) {
+          if (document.pointerLockElement === gl.domElement) document.exitPointerLock()
+          initiateLanding(nearestPlanet.node)
+        }
+        return
+      }
+
       // Register flight control keys
       if (FLIGHT_KEYS.has(event.code)) {
         event.preventDefault()
@@ -1,15 +1,35 @@
-import { useRef, useMemo } from 'react'
+import { useEffect, useRef, useMemo, useState } from 'react'
 import { useFrame } from '@react-three/fiber'
 import { Sphere } from '@react-three/drei'
 import * as THREE from 'three'
-import type { FolderNode, FileNode } from '../types'
+import type { FolderNode, FileMetrics, FileNode } from '../types'
 import { getColorForExtension } from '../types'
-import { useStore } from '../store'
+import {
+  useStore,
+  useIsStaged,
+  useHistoryChangeKind,
+  useCompareStatus,
+  useComparedFile,
+  useFileHeat,
+  useFolderHeat,
+  type CompareStatus,
+  type HistoryChangeKind,
+} from '../store'
 import ProceduralPlanet from './ProceduralPlanet'
 import NodeLabel from './NodeLabel'
 import { PERFORMANCE } from '../config/performance'
 import { useNodeInteraction } from '../hooks/useNodeInteraction'
 import { useFrameThrottle } from '../hooks/useFrameThrottle'
+import { useChangeAnimation, getChangeFlash } from '../hooks/useChangeAnimation'
+import { registerPlanet, unregisterPlanet, updatePlanetPosition } from '../hooks/useProximityDetection'
+import { encodePlanet, orderForOrbits } from '../utils/metricMapping'
+import { heatColor } from '../utils/hotspots'
+
+// Scratch vector for reading planet world positions each frame
+const worldPosition = new THREE.Vector3()
+
+// Stable stand-in while no channel needs file metrics
+const NO_METRICS: Record<string, FileMetrics> = {}
 
 interface SolarSystemProps {
   folder: FolderNode
@@ -67,6 +87,27 @@ function getStarProperties(depth: number, childCount: number, totalDescendants:
   }
 }
 
+// Hotspot halo, from cool and faint to hot and bright
+function HeatGlow({ radius, heat }: { radius: number; heat: number }) {
+  const [minOpacity, maxOpacity] = PERFORMANCE.hotspots.opacityRange
+  const detail = PERFORMANCE.files.geometry.interactionDetail * 2
+  const color = useMemo(() => heatColor(heat), [heat])
+
+  return (
+    <mesh>
+      <sphereGeometry args={[radius, detail, detail]} />
+      <meshBasicMaterial
+        color={color}
+        transparent
+        opacity={minOpacity + (maxOpacity - minOpacity) * heat}
+        side={THREE.BackSide}
+        depthWrite={false}
+        blending={THREE.AdditiveBlending}
+      />
+    </mesh>
+  )
+}
+
 // Sun (folder) component - no click to enter, just displays
 function Sun({ folder, depth, totalChildren }: {
   folder: FolderNode
@@ -76,6 +117,7 @@ function Sun({ folder, depth, totalChildren }: {
   const sunRef = useRef<THREE.Group>(null)
   const coronaRef = useRef<THREE.Mesh>(null)
   const { isHovered, handlers } = useNodeInteraction(folder)
+  const heat = useFolderHeat(folder.path)
 
   const starProps = useMemo(
     () => getStarProperties(depth, folder.children.length, totalChildren),
@@ -147,6 +189,9 @@ function Sun({ folder, depth, totalChildren }: {
         />
       </Sphere>
 
+      {/* How hot the folder's files run, while hotspots are shown */}
+      {heat !== null && <HeatGlow radius={starProps.size * PERFORMANCE.hotspots.sunScale} heat={heat} />}
+
       {/* Sun light */}
       <pointLight
         color={starProps.color}
@@ -160,7 +205,7 @@ function Sun({ folder, depth, totalChildren }: {
         position={[0, starProps.size * PERFORMANCE.folders.scale.labelOffset, 0]}
         distanceFactor={PERFORMANCE.folders.ui.labelDistance}
         color={starProps.color}
-        label={`${folder.name}/`}
+        label={folder.collapsed ? `${folder.name}/…` : `${folder.name}/`}
         isHovered={isHovered}
         variant="sun"
       />
@@ -168,6 +213,77 @@ function Sun({ folder, depth, totalChildren }: {
   )
 }
 
+// Glow shell around a planet while it accretes, explodes or flares in history playback
+function ChangeFlash({ path, size, kind }: { path: string; size: number; kind: HistoryChangeKind }) {
+  const meshRef = useRef<THREE.Mesh>(null)
+  const materialRef = useRef<THREE.MeshBasicMaterial>(null)
+
+  useFrame(() => {
+    if (!meshRef.current || !materialRef.current) return
+
+    const marker = useStore.getState().nodeChanges[path]
+    const flash = marker ? getChangeFlash(marker, performance.now()) : null
+    meshRef.current.visible = flash !== null
+    if (flash) {
+      meshRef.current.scale.setScalar(flash.scale)
+      materialRef.current.opacity = flash.opacity
+    }
+  })
+
+  return (
+    <mesh ref={meshRef} visible={false}>
+      <sphereGeometry args={[size, PERFORMANCE.files.geometry.interactionDetail * 2, PERFORMANCE.files.geometry.interactionDetail * 2]} />
+      <meshBasicMaterial
+        ref={materialRef}
+        color={PERFORMANCE.history.colors[kind]}
+        transparent
+        opacity={0}
+        depthWrite={false}
+        blending={THREE.AdditiveBlending}
+      />
+    </mesh>
+  )
+}
+
+// Compare mode tint over a planet, plus a halo that grows with the lines changed
+function CompareOverlay({ size, status, linesChanged }: {
+  size: number
+  status: CompareStatus
+  linesChanged: number
+}) {
+  const cfg = PERFORMANCE.compare
+  const detail = PERFORMANCE.files.geometry.interactionDetail * 2
+  const color = cfg.colors[status]
+  const haloScale = cfg.halo.base + Math.min(linesChanged / cfg.halo.linesPerUnit, cfg.halo.max)
+
+  return (
+    <>
+      <mesh>
+        <sphereGeometry args={[size * cfg.tintScale, detail, detail]} />
+        <meshBasicMaterial
+          color={color}
+          transparent
+          opacity={status === 'unchanged' ? cfg.unchangedOpacity : cfg.tintOpacity}
+          depthWrite={false}
+        />
+      </mesh>
+      {status !== 'unchanged' && (
+        <mesh>
+          <sphereGeometry args={[size * haloScale, detail, detail]} />
+          <meshBasicMaterial
+            color={color}
+            transparent
+            opacity={cfg.halo.opacity}
+            side={THREE.BackSide}
+            depthWrite={false}
+            blending={THREE.AdditiveBlending}
+          />
+        </mesh>
+      )}
+    </>
+  )
+}
+
 // Planet (file) component - orbits around the sun
 function Planet({ file, orbitRadius, orbitSpeed, startAngle }: {
   file: FileNode
@@ -176,16 +292,31 @@ function Planet({ file, orbitRadius, orbitSpeed, startAngle }: {
   startAngle: number
 }) {
   const planetRef = useRef<THREE.Group>(null)
+  const bodyRef = useRef<THREE.Group>(null)
   const throttle = useFrameThrottle(PERFORMANCE.updates.orbitInterval)
   const { isHovered, handlers } = useNodeInteraction(file)
   const { selectedNode } = useStore()
-
-  const color = useMemo(() => new THREE.Color(getColorForExtension(file.extension)), [file.extension])
+  const isStaged = useIsStaged(file.path)
+  const historyChange = useHistoryChangeKind(file.path)
+  const compareStatus = useCompareStatus(file.path)
+  const comparedFile = useComparedFile(file.path)
+  const heat = useFileHeat(file.path)
+  const metrics = useStore((s) => s.fileMetrics[file.path])
+  const metricMapping = useStore((s) => s.metricMapping)
+
+  // Size, hue, glow and spin follow whichever metrics the mapping panel binds them to
+  const encoding = useMemo(
+    () => encodePlanet(file, metrics, metricMapping),
+    [file, metrics, metricMapping]
+  )
+  const color = useMemo(
+    () => encoding.color ?? new THREE.Color(getColorForExtension(file.extension)),
+    [encoding.color, file.extension]
+  )
   const isSelected = selectedNode?.id === file.id
 
-  // Planet size based on file size
   const cfg = PERFORMANCE.files
-  const baseSize = cfg.sizing.baseSize + Math.log10(Math.max(file.size, cfg.sizing.minFileSize)) * cfg.sizing.sizeMultiplier
+  const baseSize = encoding.size
 
   // Pre-calculate orbit path points
   const orbitPath = useMemo(() => {
@@ -204,6 +335,15 @@ function Planet({ file, orbitRadius, orbitSpeed, startAngle }: {
 
   const angleRef = useRef(startAngle)
 
+  // Grow in, collapse or pulse when the file changes on disk or in history playback
+  useChangeAnimation(file.path, bodyRef)
+
+  // Keep the planet registry current for landing and warps
+  useEffect(() => {
+    registerPlanet(file.path, file, new THREE.Vector3(), baseSize)
+    return () => unregisterPlanet(file.path)
+  }, [file, baseSize])
+
   useFrame((state) => {
     if (!planetRef.current) return
     if (!throttle.shouldUpdate()) return
@@ -231,53 +371,88 @@ function Planet({ file, orbitRadius, orbitSpeed, startAngle }: {
       planetRef.current.position.z = Math.sin(startAngle) * orbitRadius
       planetRef.current.position.y = 0
     }
+
+    planetRef.current.getWorldPosition(worldPosition)
+    updatePlanetPosition(file.path, worldPosition)
   })
 
   return (
     <group ref={planetRef}>
-      {/* Interaction mesh */}
-      <mesh
-        onClick={handlers.onClick}
-        onPointerOver={handlers.onPointerOver}
-        onPointerOut={handlers.onPointerOut}
-      >
-        <sphereGeometry args={[baseSize * cfg.visual.interactionScale, cfg.geometry.interactionDetail, cfg.geometry.interactionDetail]} />
-        <meshBasicMaterial transparent opacity={0} />
-      </mesh>
-
-      {/* Procedural planet */}
-      <ProceduralPlanet
-        size={baseSize}
-        color={color}
-        extension={file.extension}
-        rotationSpeed={cfg.animation.rotationSpeed}
-      />
-
-      {/* Selection indicator */}
-      {(isSelected || isHovered) && (
-        <mesh rotation={[Math.PI / 2, 0, 0]}>
-          <ringGeometry args={[baseSize * cfg.selectionRing.innerScale, baseSize * cfg.selectionRing.outerScale, cfg.geometry.selectionRingDetail]} />
-          <meshBasicMaterial
-            color={color}
-            transparent
-            opacity={cfg.selectionRing.opacity}
-            side={THREE.DoubleSide}
-            blending={THREE.AdditiveBlending}
-          />
+      {/* Accretion cloud, shockwave or flare, sized independently of the planet's own scale */}
+      {historyChange && <ChangeFlash path={file.path} size={baseSize} kind={historyChange} />}
+
+      <group ref={bodyRef}>
+        {/* Interaction mesh */}
+        <mesh
+          onClick={handlers.onClick}
+          onPointerOver={handlers.onPointerOver}
+          onPointerOut={handlers.onPointerOut}
+        >
+          <sphereGeometry args={[baseSize * cfg.visual.interactionScale, cfg.geometry.interactionDetail, cfg.geometry.interactionDetail]} />
+          <meshBasicMaterial transparent opacity={0} />
         </mesh>
-      )}
 
-      {/* Label - only show on hover */}
-      {isHovered && (
-        <NodeLabel
-          position={[0, baseSize * cfg.visual.labelOffset + cfg.visual.labelExtraOffset, 0]}
-          distanceFactor={cfg.ui.labelDistance}
+        {/* Procedural planet */}
+        <ProceduralPlanet
+          size={baseSize}
           color={color}
-          label={file.name}
-          isHovered={isHovered}
-          variant="planet"
+          extension={file.extension}
+          rotationSpeed={cfg.animation.rotationSpeed * encoding.spin}
+          glow={encoding.glow}
         />
-      )}
+
+        {/* Added / removed / modified / unchanged in compare mode */}
+        {compareStatus && (
+          <CompareOverlay
+            size={baseSize}
+            status={compareStatus}
+            linesChanged={comparedFile ? comparedFile.additions + comparedFile.deletions : 0}
+          />
+        )}
+
+        {/* Churn × size, while hotspots are shown */}
+        {heat !== null && <HeatGlow radius={baseSize * PERFORMANCE.hotspots.planetScale} heat={heat} />}
+
+        {/* Selection indicator */}
+        {(isSelected || isHovered) && (
+          <mesh rotation={[Math.PI / 2, 0, 0]}>
+            <ringGeometry args={[baseSize * cfg.selectionRing.innerScale, baseSize * cfg.selectionRing.outerScale, cfg.geometry.selectionRingDetail]} />
+            <meshBasicMaterial
+              color={color}
+              transparent
+              opacity={cfg.selectionRing.opacity}
+              side={THREE.DoubleSide}
+              blending={THREE.AdditiveBlending}
+            />
+          </mesh>
+        )}
+
+        {/* Staged marker */}
+        {isStaged && (
+          <mesh rotation={[Math.PI / 2 - cfg.stagedRing.tilt, 0, cfg.stagedRing.tilt]}>
+            <ringGeometry args={[baseSize * cfg.stagedRing.innerScale, baseSize * cfg.stagedRing.outerScale, cfg.geometry.selectionRingDetail]} />
+            <meshBasicMaterial
+              color={cfg.stagedRing.color}
+              transparent
+              opacity={cfg.stagedRing.opacity}
+              side={THREE.DoubleSide}
+              blending={THREE.AdditiveBlending}
+            />
+          </mesh>
+        )}
+
+        {/* Label - only show on hover */}
+        {isHovered && (
+          <NodeLabel
+            position={[0, baseSize * cfg.visual.labelOffset + cfg.visual.labelExtraOffset, 0]}
+            distanceFactor={cfg.ui.labelDistance}
+            color={color}
+            label={file.name}
+            isHovered={isHovered}
+            variant="planet"
+          />
+        )}
+      </group>
     </group>
   )
 }
@@ -311,14 +486,33 @@ function countDescendants(folder: FolderNode): number {
 }
 
 export default function SolarSystem({ folder, position, depth, totalChildren }: SolarSystemProps) {
+  const systemRef = useRef<THREE.Group>(null)
+  useChangeAnimation(folder.path, systemRef)
+
+  // Placed once, then glides to new positions when the layout changes (e.g. switching branches)
+  const [initialPosition] = useState(position)
+  const targetPosition = useMemo(() => new THREE.Vector3(...position), [position])
+  useFrame((_, delta) => {
+    if (!systemRef.current) return
+    systemRef.current.position.lerp(targetPosition, 1 - Math.exp(-delta * PERFORMANCE.folders.animation.slideRate))
+  })
+
   const starProps = useMemo(
     () => getStarProperties(depth, folder.children.length, totalChildren),
     [depth, folder.children.length, totalChildren]
   )
 
+  // Files take orbits in folder order, or from the inside out by the orbit metric
+  const orbitMetric = useStore((s) => s.metricMapping.orbit)
+  const orbitMetrics = useStore((s) => (s.metricMapping.orbit ? s.fileMetrics : NO_METRICS))
+
   // Calculate orbit parameters for file children only
   const orbits = useMemo(() => {
-    const files = folder.children.filter((c): c is FileNode => c.type === 'file')
+    const files = orderForOrbits(
+      folder.children.filter((c): c is FileNode => c.type === 'file'),
+      orbitMetric,
+      orbitMetrics
+    )
     const sunSize = starProps.size
     const cfg = PERFORMANCE.files.orbit
 
@@ -329,10 +523,10 @@ export default function SolarSystem({ folder, position, depth, totalChildren }:
 
       return { file, orbitRadius, orbitSpeed, startAngle }
     })
-  }, [folder.children, starProps.size])
+  }, [folder.children, starProps.size, orbitMetric, orbitMetrics])
 
   return (
-    <group position={position}>
+    <group ref={systemRef} position={initialPosition}>
       {/* The sun (folder) */}
       <Sun folder={folder} depth={depth} totalChildren={totalChildren} />
 
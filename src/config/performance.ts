@@ -111,6 +111,7 @@ export const PERFORMANCE = {
       rotateSpeed: 0.0005,
       coronaPulse: 0.5,
       coronaAmount: 0.05,
+      slideRate: 3, // How quickly systems glide to a new layout position (1/seconds)
     },
     // Scale multipliers
     scale: {
@@ -182,6 +183,14 @@ export const PERFORMANCE = {
       outerScale: 2.3,
       opacity: 0.7,
     },
+    // Tilted ring marking files staged for the next commit
+    stagedRing: {
+      innerScale: 1.5,
+      outerScale: 1.7,
+      opacity: 0.85,
+      tilt: 0.45,
+      color: '#89e051',
+    },
     // Visual properties
     visual: {
       interactionScale: 1.2,
@@ -223,6 +232,116 @@ export const PERFORMANCE = {
     },
   },
 
+  // Live file change animations (seconds)
+  changes: {
+    fadeIn: 1.2,       // New planets grow in from nothing
+    collapse: 0.8,     // Deleted planets shrink away before being removed
+    pulse: 1.5,        // Modified planets throb briefly
+    pulseAmount: 0.4,
+    refreshDelay: 1.0, // Quiet time before repo-wide reloads (status, imports, metrics) after changes
+  },
+
+  // History playback animations (seconds unless noted)
+  history: {
+    stepInterval: 1.5,     // Time on each commit at 1x playback speed
+    speeds: [0.5, 1, 2, 4], // Playback speeds the timeline cycles through
+    accretion: 1.4,        // Added planets pull together out of a dust cloud
+    accretionCloud: 3,     // Dust cloud starting size, relative to the planet
+    explode: 0.9,          // Deleted planets swell, then burst
+    explodeSwell: 0.6,
+    shockwave: 5,          // Shockwave final size, relative to the planet
+    flare: 1.0,            // Modified planets flash
+    flareAmount: 0.25,
+    flashOpacity: 0.6,
+    colors: {
+      accreted: '#9fd8ff',
+      exploded: '#ff8a3d',
+      flared: '#fff3b0',
+    },
+  },
+
+  // Compare mode overlays
+  compare: {
+    colors: {
+      added: '#3fb950',
+      removed: '#f85149',
+      modified: '#d29922',
+      unchanged: '#30363d',
+    },
+    tintScale: 1.03,        // Tint shell around the planet, relative to its size
+    tintOpacity: 0.45,
+    unchangedOpacity: 0.7,  // Unchanged planets are dimmed more heavily
+    halo: {
+      base: 1.3,            // Halo size with no changed lines, relative to the planet
+      linesPerUnit: 150,    // Changed lines per extra planet radius
+      max: 3,
+      opacity: 0.18,
+    },
+    // Line from a renamed file's old place to its new one
+    renameTrail: {
+      color: '#d29922',
+      opacity: 0.6,
+    },
+  },
+
+  // Camera warp to a chosen planet
+  warp: {
+    duration: 1.8,  // Seconds
+    standoff: 1500, // Distance to stop short of the target
+  },
+
+  // Galaxy layout, computed in a worker
+  layout: {
+    scale: 25,       // World units per force-simulation unit
+    iterations: 150, // Force simulation iterations per layout
+    streamEvery: 10, // Send positions to the scene every N iterations
+    displaceRadius: 8000, // World units around a new or moved system that may make room for it
+  },
+
+  // Co-change coupling between folders, from the loaded commit history
+  coupling: {
+    minSharedCommits: 2,     // Commits two folders must share to count as coupled
+    maxFoldersPerCommit: 24, // Sweeping commits (renames, reformatting) would couple everything
+    maxLinks: 500,           // Strongest pairs kept
+    // Curves dipping between strongly coupled systems
+    wells: {
+      minStrength: 0.3,
+      max: 40,
+      sag: 0.2,              // Dip below the straight line, relative to its length
+      color: '#ff9e57',
+      opacity: 0.5,
+    },
+  },
+
+  // Planet channels that can be bound to file metrics (see utils/metricMapping.ts)
+  metricMapping: {
+    hueSteps: 8,              // Mapped hues come in steps so planets can share textures
+    hueRange: [0.66, 0],      // Blue for low values through to red for high ones
+    glowRange: [0.3, 3],      // Atmosphere opacity, relative to the default
+    rotationRange: [0.25, 4], // Spin, relative to the default
+  },
+
+  // Import dependency lanes between planets
+  imports: {
+    maxLanes: 1500,        // Lanes drawn at once when every planet shows its lanes
+    laneColor: '#7fd1ff',
+    laneOpacity: 0.35,
+    tailBrightness: 0.15,  // Importing end of a lane, relative to the imported end
+    pulseColor: '#d6f3ff',
+    pulseSize: 60,
+    pulseSpeed: 0.35,      // Lane lengths per second, from importer to imported
+  },
+
+  // Churn × size hotspots, from the loaded commit history
+  hotspots: {
+    maxCommits: 3000,       // History paged in to cover a time window
+    listed: 20,             // Hottest files in the HUD list
+    hueRange: [0.62, 0],    // Cool blue through to hot red
+    planetScale: 1.6,       // Heat halo around a planet, relative to its size
+    sunScale: 1.6,          // Heat halo around a sun, relative to its size
+    opacityRange: [0.12, 0.55],
+  },
+
   // Connection lines controls
   connections: {
     curvePoints: 50,
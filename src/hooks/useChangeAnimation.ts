@@ -0,0 +1,102 @@
+import type { RefObject } from 'react'
+import { useFrame } from '@react-three/fiber'
+import type * as THREE from 'three'
+import { useStore, type NodeChangeMarker } from '../store'
+import { PERFORMANCE } from '../config/performance'
+
+// Scale multiplier for a node given how long ago it changed on disk or in history playback
+function getChangeScale(marker: NodeChangeMarker, now: number): number {
+  const cfg = PERFORMANCE.changes
+  const history = PERFORMANCE.history
+  const elapsed = (now - marker.at) / 1000
+
+  switch (marker.kind) {
+    case 'added': {
+      // Ease-out growth from nothing
+      const t = Math.min(elapsed / cfg.fadeIn, 1)
+      return 1 - Math.pow(1 - t, 3)
+    }
+    case 'removed': {
+      // Ease-in shrink to nothing
+      const t = Math.min(elapsed / cfg.collapse, 1)
+      return Math.max(1 - t * t, 0.0001)
+    }
+    case 'modified': {
+      // A few decaying throbs
+      const t = Math.min(elapsed / cfg.pulse, 1)
+      return 1 + Math.sin(t * Math.PI * 3) * cfg.pulseAmount * (1 - t)
+    }
+    case 'accreted': {
+      // Grow with a slight overshoot, as if pulled together
+      const t = Math.min(elapsed / history.accretion, 1)
+      const back = 1.70158
+      return Math.max(1 + (back + 1) * Math.pow(t - 1, 3) + back * Math.pow(t - 1, 2), 0.0001)
+    }
+    case 'exploded': {
+      // Swell for the first third, then burst away
+      const t = Math.min(elapsed / history.explode, 1)
+      if (t < 1 / 3) return 1 + history.explodeSwell * t * 3
+      return Math.max((1 + history.explodeSwell) * Math.pow(1 - (t - 1 / 3) * 1.5, 3), 0.0001)
+    }
+    case 'flared': {
+      // One quick swell
+      const t = Math.min(elapsed / history.flare, 1)
+      return 1 + Math.sin(t * Math.PI) * history.flareAmount
+    }
+  }
+}
+
+export interface ChangeFlash {
+  scale: number // Relative to the node's own size
+  opacity: number
+}
+
+/**
+ * Size and opacity of the glow shell drawn around a node during history playback:
+ * a contracting dust cloud for accretion, a shockwave for explosions and a flash
+ * for flares. Returns null once the animation is over or for live disk changes.
+ */
+export function getChangeFlash(marker: NodeChangeMarker, now: number): ChangeFlash | null {
+  const cfg = PERFORMANCE.history
+  const elapsed = (now - marker.at) / 1000
+
+  switch (marker.kind) {
+    case 'accreted': {
+      const t = elapsed / cfg.accretion
+      if (t >= 1) return null
+      return { scale: cfg.accretionCloud - (cfg.accretionCloud - 1) * (1 - Math.pow(1 - t, 2)), opacity: Math.sin(t * Math.PI) * cfg.flashOpacity }
+    }
+    case 'exploded': {
+      const t = elapsed / cfg.explode
+      if (t < 1 / 3 || t >= 1) return null
+      const burst = (t - 1 / 3) * 1.5
+      return { scale: 1 + (cfg.shockwave - 1) * (1 - Math.pow(1 - burst, 3)), opacity: (1 - burst) * cfg.flashOpacity }
+    }
+    case 'flared': {
+      const t = elapsed / cfg.flare
+      if (t >= 1) return null
+      return { scale: 1.3 + t * 0.5, opacity: Math.pow(1 - t, 2) * cfg.flashOpacity }
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * Animates an object's scale when its node is added, removed or modified on disk,
+ * or appears, disappears or changes while stepping through history.
+ *
+ * Reads the change markers straight from the store each frame, so components
+ * don't re-render when files change elsewhere in the repo.
+ *
+ * @param path - Repo path of the node the object represents
+ * @param ref - The group or mesh to scale
+ */
+export function useChangeAnimation(path: string, ref: RefObject<THREE.Object3D | null>) {
+  useFrame(() => {
+    if (!ref.current) return
+
+    const marker = useStore.getState().nodeChanges[path]
+    ref.current.scale.setScalar(marker ? getChangeScale(marker, performance.now()) : 1)
+  })
+}
@@ -0,0 +1,133 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { FolderNode, PinnedSystems } from '../types'
+import { collectSystems, type GalaxySystem, type LayoutRequest, type LayoutResponse } from '../utils/galaxyLayout'
+import { LAYOUT_STRATEGIES, type LayoutStrategyId } from '../utils/layoutStrategies'
+import type { CoChangeLink } from '../utils/coChange'
+import { hashString } from '../utils/random'
+
+export interface PlacedSystem extends GalaxySystem {
+  position: [number, number, number]
+}
+
+type Positions = Map<string, [number, number, number]>
+
+// Latest layout positions by folder path, for reading outside the scene (e.g. to pin a system)
+let currentPositions: Positions = new Map()
+
+export function getSystemPosition(path: string): [number, number, number] | null {
+  return currentPositions.get(path) ?? null
+}
+
+// Coupled pairs as system indices, dropping folders without a system
+function toLinks(paths: string[], coupling: CoChangeLink[]): { links: Int32Array; linkWeights: Float32Array } {
+  const indices = new Map(paths.map((path, i) => [path, i]))
+  const pairs = coupling.filter(({ a, b }) => indices.has(a) && indices.has(b))
+
+  return {
+    links: Int32Array.from(pairs.flatMap(({ a, b }) => [indices.get(a)!, indices.get(b)!])),
+    linkWeights: Float32Array.from(pairs, (pair) => pair.strength),
+  }
+}
+
+// Flat [x, y, z, ...] per path, NaN where there's no position
+function toCoordinates(paths: string[], lookup: (path: string) => [number, number, number] | undefined): Float32Array {
+  const coordinates = new Float32Array(paths.length * 3).fill(NaN)
+  paths.forEach((path, i) => {
+    const position = lookup(path)
+    if (position) coordinates.set(position, i * 3)
+  })
+  return coordinates
+}
+
+/**
+ * Solar system positions for a tree, computed in a worker so large repos don't
+ * freeze the UI. Systems show up at their seed positions as soon as the worker
+ * answers and move as the layout settles. When folders come and go, or pins
+ * change, only the systems around the change move; tree changes that keep the
+ * same folders reuse the current positions. Switching strategy lays everything
+ * out afresh, and systems glide over to their new places. Coupled strategies
+ * use the co-change coupling known when the layout starts; coupling found later
+ * (e.g. by loading more history) only applies from the next full layout.
+ */
+export function useGalaxyLayout(
+  root: FolderNode | null,
+  pins: PinnedSystems,
+  strategy: LayoutStrategyId,
+  coupling: CoChangeLink[]
+): PlacedSystem[] {
+  const systems = useMemo(() => (root ? collectSystems(root) : []), [root])
+  const [positions, setPositions] = useState<Positions>(() => new Map())
+
+  const workerRef = useRef<Worker | null>(null)
+  const jobRef = useRef({ id: 0, key: '', paths: [] as string[], strategy })
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../utils/galaxyLayout.worker.ts', import.meta.url), { type: 'module' })
+
+    worker.onmessage = (event: MessageEvent<LayoutResponse>) => {
+      const { jobId, positions: coordinates } = event.data
+      const job = jobRef.current
+      if (jobId !== job.id) return // Superseded by a newer tree
+
+      const next: Positions = new Map()
+      job.paths.forEach((path, i) => {
+        next.set(path, [coordinates[i * 3], coordinates[i * 3 + 1], coordinates[i * 3 + 2]])
+      })
+      currentPositions = next
+      setPositions(next)
+    }
+
+    workerRef.current = worker
+    return () => {
+      worker.terminate()
+      workerRef.current = null
+      jobRef.current = { ...jobRef.current, key: '' } // The next worker has to start over
+    }
+  }, [])
+
+  // Lay out again when folders appear or disappear, pins change or the strategy does
+  useEffect(() => {
+    const worker = workerRef.current
+    const paths = systems.map((system) => system.folder.path)
+    const key = [strategy, JSON.stringify(pins), ...paths].join('\n')
+    if (!worker || key === jobRef.current.key) return
+
+    // An empty galaxy (e.g. while switching repos) has nothing worth remembering,
+    // and positions from another strategy are no place to start from
+    if (paths.length === 0 || strategy !== jobRef.current.strategy) currentPositions = new Map()
+
+    const parents = Int32Array.from(systems, (system) => system.parentIndex)
+    const hashes = Uint32Array.from(paths, hashString)
+    const sizes = Uint32Array.from(systems, (system) => system.totalChildren)
+    const known = toCoordinates(paths, (path) => currentPositions.get(path))
+    const pinned = toCoordinates(paths, (path) => pins[path])
+    const { links, linkWeights } = toLinks(paths, LAYOUT_STRATEGIES[strategy].coupled ? coupling : [])
+
+    jobRef.current = { id: jobRef.current.id + 1, key, paths, strategy }
+    const request: LayoutRequest = {
+      jobId: jobRef.current.id,
+      strategy,
+      parents,
+      hashes,
+      sizes,
+      known,
+      pins: pinned,
+      links,
+      linkWeights,
+    }
+    worker.postMessage(request, [
+      parents.buffer,
+      hashes.buffer,
+      sizes.buffer,
+      known.buffer,
+      pinned.buffer,
+      links.buffer,
+      linkWeights.buffer,
+    ])
+  }, [systems, pins, strategy, coupling])
+
+  return useMemo(() => systems.flatMap((system) => {
+    const position = positions.get(system.folder.path)
+    return position ? [{ ...system, position }] : []
+  }), [systems, positions])
+}
@@ -0,0 +1,37 @@
+import { useEffect } from 'react'
+import { useStore } from '../store'
+import { PERFORMANCE } from '../config/performance'
+
+/**
+ * Keeps the history tree in step with the timeline and, while playing, advances
+ * one commit towards HEAD every `stepInterval / playbackSpeed` seconds.
+ * Playback stops by itself on reaching HEAD.
+ */
+export function useHistoryPlayback() {
+  const viewMode = useStore((s) => s.viewMode)
+  const historyIndex = useStore((s) => s.historyIndex)
+  const commits = useStore((s) => s.commits)
+  const rootNode = useStore((s) => s.rootNode)
+  const isPlaying = useStore((s) => s.isPlaying)
+  const playbackSpeed = useStore((s) => s.playbackSpeed)
+  const syncHistoryTree = useStore((s) => s.syncHistoryTree)
+
+  useEffect(() => {
+    syncHistoryTree()
+  }, [viewMode, historyIndex, commits, rootNode, syncHistoryTree])
+
+  useEffect(() => {
+    if (viewMode !== 'history' || !isPlaying) return
+
+    const interval = setInterval(() => {
+      const { historyIndex, prevCommit, togglePlayback } = useStore.getState()
+      if (historyIndex === 0) {
+        togglePlayback()
+      } else {
+        prevCommit()
+      }
+    }, (PERFORMANCE.history.stepInterval * 1000) / playbackSpeed)
+
+    return () => clearInterval(interval)
+  }, [viewMode, isPlaying, playbackSpeed])
+}
@@ -34,6 +34,11 @@ export function updatePlanetPosition(id: string, worldPosition: THREE.Vector3) {
   }
 }
 
+// Last known world position of a planet, for warping to it
+export function getPlanetPosition(id: string): THREE.Vector3 | null {
+  return planetRegistry.get(id)?.worldPosition ?? null
+}
+
 // Hook for proximity detection
 export function useProximityDetection() {
   const { camera } = useThree()
@@ -0,0 +1,79 @@
+import { useRef } from 'react'
+import { useFrame, useThree } from '@react-three/fiber'
+import * as THREE from 'three'
+import type { OrbitControls as OrbitControlsImpl } from 'three-stdlib'
+import { useStore } from '../store'
+import { PERFORMANCE } from '../config/performance'
+
+interface WarpFlight {
+  target: THREE.Vector3
+  fromPosition: THREE.Vector3
+  toPosition: THREE.Vector3
+  fromQuaternion: THREE.Quaternion
+  toQuaternion: THREE.Quaternion
+  fromPivot: THREE.Vector3 | null
+  startedAt: number
+}
+
+function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+}
+
+/**
+ * Flies the camera towards the store's `targetPosition` (set with `travelTo`),
+ * stopping `PERFORMANCE.warp.standoff` short and turning to face it, then clears
+ * the target. In orbit mode the controls' pivot moves to the target as well.
+ */
+export function useWarp() {
+  const camera = useThree((state) => state.camera)
+  // OrbitControls registered with makeDefault; fly mode has none
+  const pivot = useThree((state) => state.controls) as OrbitControlsImpl | null
+  const flight = useRef<WarpFlight | null>(null)
+  const lastTarget = useRef<{ x: number; y: number; z: number } | null>(null)
+
+  useFrame((state) => {
+    const { targetPosition, clearTarget } = useStore.getState()
+
+    if (targetPosition !== lastTarget.current) {
+      lastTarget.current = targetPosition
+      flight.current = null
+
+      if (targetPosition) {
+        const target = new THREE.Vector3(targetPosition.x, targetPosition.y, targetPosition.z)
+        const direction = camera.position.clone().sub(target)
+        if (direction.lengthSq() === 0) direction.set(0, 0, 1)
+        const toPosition = target.clone().addScaledVector(direction.normalize(), PERFORMANCE.warp.standoff)
+
+        const facing = new THREE.Matrix4().lookAt(toPosition, target, camera.up)
+        flight.current = {
+          target,
+          fromPosition: camera.position.clone(),
+          toPosition,
+          fromQuaternion: camera.quaternion.clone(),
+          toQuaternion: new THREE.Quaternion().setFromRotationMatrix(facing),
+          fromPivot: pivot ? pivot.target.clone() : null,
+          startedAt: state.clock.elapsedTime,
+        }
+      }
+    }
+
+    const warp = flight.current
+    if (!warp) return
+
+    const t = Math.min((state.clock.elapsedTime - warp.startedAt) / PERFORMANCE.warp.duration, 1)
+    const eased = easeInOutCubic(t)
+
+    camera.position.lerpVectors(warp.fromPosition, warp.toPosition, eased)
+    if (warp.fromPivot && pivot) {
+      pivot.target.lerpVectors(warp.fromPivot, warp.target, eased)
+      pivot.update()
+    } else {
+      camera.quaternion.slerpQuaternions(warp.fromQuaternion, warp.toQuaternion, eased)
+    }
+
+    if (t >= 1) {
+      flight.current = null
+      clearTarget()
+    }
+  })
+}
@@ -1,13 +1,249 @@
 import { create } from 'zustand'
-import type { FolderNode, FileNode, GitCommit, RepoInfo, RepoNode, LayoutNode } from '../types'
-import { createDemoRepo, createDemoCommits, getRepoInfo } from '../utils/gitParser'
+import type {
+  CommitFile,
+  FileMetrics,
+  FolderNode,
+  GitBranch,
+  FileNode,
+  GitCommit,
+  ImportEdge,
+  RepoChange,
+  RepoInfo,
+  RepoNode,
+  LayoutNode,
+  PinnedSystems,
+  WorkingFileStatus,
+} from '../types'
+import {
+  createDemoRepo,
+  createDemoCommits,
+  createDemoRepoInfo,
+  findNode,
+  flattenTree,
+  removeNode,
+  replaceFolder,
+  upsertNode,
+} from '../utils/gitParser'
+import { applyCommit, withGhosts } from '../utils/historyTree'
+import {
+  clearTreeSnapshots,
+  diffTrees,
+  diffTreeSnapshots,
+  loadTreeSnapshot,
+  prefetchTreeSnapshot,
+  type TreeDiff,
+} from '../utils/treeSnapshots'
+import {
+  fetchCommitPage,
+  fetchExpandedFolder,
+  fetchFileMetrics,
+  fetchImportGraph,
+  fetchPinnedSystems,
+  fetchRepoInfo,
+  fetchRepoTree,
+  fetchRevisionDiff,
+  openRepository,
+  savePinnedSystem,
+} from '../utils/repoApi'
+import {
+  checkoutBranch,
+  createCommit,
+  fetchBranches,
+  fetchWorkingStatus,
+  stageFiles,
+  unstageFiles,
+  type CommitOptions,
+} from '../utils/gitApi'
+import type { LayoutStrategyId } from '../utils/layoutStrategies'
+import { DEFAULT_METRIC_MAPPING, type MetricId, type MetricMapping, type VisualChannel } from '../utils/metricMapping'
+import { computeHotspots, windowStart, type Hotspots, type HotspotWindowId } from '../utils/hotspots'
 import { DEFAULT_CONTROLS, type ControlSettings } from '../config/controls'
+import { PERFORMANCE } from '../config/performance'
 
-export type ViewMode = 'explore' | 'history'
+export type ViewMode = 'explore' | 'history' | 'compare'
 export type CameraMode = 'orbit' | 'fly'
 export type ViewLevel = 'galaxy' | 'system' // galaxy = all systems, system = inside one folder
 export type ShipType = 'falcon' | 'viper' | 'hauler' | 'explorer' | 'custom'
 export type LandingState = 'flying' | 'approaching' | 'landed'
+export type ImportLaneMode = 'off' | 'selected' | 'all' // Which planets show their dependency lanes
+
+// Commits fetched per history page
+const COMMIT_PAGE_SIZE = 200
+
+// Repo-wide reloads after changes on disk. Each rescans the whole repository,
+// so they wait for a burst of changes (an editor save, a checkout) to settle,
+// and changes arriving while one runs queue a single rerun instead of a second scan.
+let repoRefreshTimer: ReturnType<typeof setTimeout> | null = null
+let isRefreshingRepo = false
+let isRepoRefreshQueued = false
+
+function scheduleRepoRefresh(refresh: () => Promise<void>) {
+  if (repoRefreshTimer) clearTimeout(repoRefreshTimer)
+  repoRefreshTimer = setTimeout(async () => {
+    repoRefreshTimer = null
+    if (isRefreshingRepo) {
+      isRepoRefreshQueued = true
+      return
+    }
+
+    isRefreshingRepo = true
+    try {
+      do {
+        isRepoRefreshQueued = false
+        await refresh()
+      } while (isRepoRefreshQueued)
+    } finally {
+      isRefreshingRepo = false
+    }
+  }, PERFORMANCE.changes.refreshDelay * 1000)
+}
+
+// Recent change to a node, used to drive fade-in / collapse / pulse animations for
+// live disk changes and accretion / explosion / flare animations in history playback
+export type HistoryChangeKind = 'accreted' | 'exploded' | 'flared'
+export type NodeChangeKind = 'added' | 'removed' | 'modified' | HistoryChangeKind
+export interface NodeChangeMarker {
+  kind: NodeChangeKind
+  at: number // performance.now() when the change arrived
+}
+
+// Tree shown for one point in history
+interface HistoryCursor {
+  index: number // Position in commits when it was shown
+  hash: string
+  root: FolderNode
+}
+
+// Estimate the tree after commits[target] by replaying commit file lists from the
+// last tree shown, or from the live tree standing in for HEAD
+function replayHistory(
+  cursor: HistoryCursor | null,
+  rootNode: FolderNode,
+  commits: GitCommit[],
+  target: number
+): FolderNode {
+  let root = cursor?.root ?? rootNode
+  const start = cursor?.index ?? 0
+
+  // Commits are newest first, so moving to a higher index goes back in time
+  for (let i = start; i < target; i++) root = applyCommit(root, commits[i], 'backward', rootNode)
+  for (let i = start; i > target; i--) root = applyCommit(root, commits[i - 1], 'forward', rootNode)
+  return root
+}
+
+// Mark every node that is new or modified in `next` compared to `previous`
+function markChanges(
+  previous: RepoNode | null,
+  next: RepoNode,
+  markers: Record<string, NodeChangeMarker>,
+  at: number
+) {
+  if (!previous || previous.type !== next.type) {
+    for (const node of flattenTree(next)) {
+      markers[node.path] = { kind: 'added', at }
+    }
+    return
+  }
+
+  if (previous.type === 'file' && next.type === 'file') {
+    if (previous.size !== next.size || previous.lastModified.getTime() !== next.lastModified.getTime()) {
+      markers[next.path] = { kind: 'modified', at }
+    }
+    return
+  }
+
+  if (previous.type === 'folder' && next.type === 'folder') {
+    for (const child of next.children) {
+      markChanges(previous.children.find((c) => c.path === child.path) ?? null, child, markers, at)
+    }
+  }
+}
+
+// How a file differs between the two revisions in compare mode
+export type CompareStatus = 'added' | 'removed' | 'modified' | 'unchanged'
+
+export interface ComparedFile {
+  path: string
+  oldPath?: string // for renamed files
+  renamedTo?: string // for the base-side path of a renamed file, which departs like a removal
+  status: Exclude<CompareStatus, 'unchanged'>
+  additions: number
+  deletions: number
+}
+
+export interface Comparison {
+  base: string // Revisions as entered
+  head: string
+  baseHash: string
+  headHash: string
+  root: FolderNode // Tree at head plus the files removed since base
+  files: ComparedFile[]
+  byPath: Record<string, ComparedFile>
+}
+
+function toComparedStatus(status: CommitFile['status']): ComparedFile['status'] {
+  if (status === 'added') return 'added'
+  if (status === 'deleted') return 'removed'
+  return 'modified' // Renames count as modified at their new path
+}
+
+// Markers for moving between two trees: new nodes accrete, removed nodes explode
+// and changed files flare
+function getTransitionMarkers(diff: TreeDiff): Record<string, NodeChangeMarker> {
+  const at = performance.now()
+  const markers: Record<string, NodeChangeMarker> = {}
+  for (const path of diff.modified) markers[path] = { kind: 'flared', at }
+  for (const path of diff.added) markers[path] = { kind: 'accreted', at }
+  for (const path of diff.removed) markers[path] = { kind: 'exploded', at }
+  return markers
+}
+
+// Remove transition markers once their animations have played, unless a newer
+// change replaced them meanwhile
+function clearMarkersLater(markers: Record<string, NodeChangeMarker>) {
+  const { accretion, explode, flare } = PERFORMANCE.history
+  setTimeout(() => {
+    const nodeChanges = { ...useStore.getState().nodeChanges }
+    for (const [path, marker] of Object.entries(markers)) {
+      if (nodeChanges[path]?.at === marker.at) delete nodeChanges[path]
+    }
+    useStore.setState({ nodeChanges })
+  }, Math.max(accretion, explode, flare) * 1000 + 100)
+}
+
+/**
+ * Replace a tree in the store with `next`, animating the difference: new nodes
+ * accrete, changed files flare and removed nodes explode, staying in the tree
+ * until they've burst.
+ *
+ * @param previous - Tree currently on screen
+ * @param show - Puts a tree into the store
+ * @param current - Reads the tree back, to tell whether something replaced it meanwhile
+ */
+function morphTree(
+  previous: FolderNode | null,
+  next: FolderNode,
+  show: (root: FolderNode) => void,
+  current: () => FolderNode | null
+) {
+  if (!previous) {
+    show(next)
+    return
+  }
+
+  const diff = diffTrees(previous, next)
+  const markers = getTransitionMarkers(diff)
+  const shown = withGhosts(next, previous, diff.removed)
+  useStore.setState({ nodeChanges: { ...useStore.getState().nodeChanges, ...markers } })
+  show(shown)
+  clearMarkersLater(markers)
+
+  if (diff.removed.length > 0) {
+    setTimeout(() => {
+      if (current() === shown) show(next)
+    }, PERFORMANCE.history.explode * 1000)
+  }
+}
 
 // Info about the nearest planet for landing
 interface NearestPlanetInfo {
@@ -16,6 +252,55 @@ interface NearestPlanetInfo {
   worldPosition: [number, number, number]
 }
 
+// On-disk version that a save collided with
+export interface EditorConflict {
+  content: string
+  version: string
+}
+
+// One open file in the editor; buffers outlive takeoff so edits survive between landings
+export interface EditorBuffer {
+  file: FileNode
+  content: string | null // null until the file has loaded
+  baseContent: string | null // As last read from or written to disk
+  version: string | null
+  conflict: EditorConflict | null
+  isDirty: boolean
+  error: string | null
+  scrollTop: number
+  cursor: number // Offset of the selection head
+}
+
+export interface EditorViewState {
+  scrollTop: number
+  cursor: number
+}
+
+function createEditorBuffer(file: FileNode): EditorBuffer {
+  return {
+    file,
+    content: null,
+    baseContent: null,
+    version: null,
+    conflict: null,
+    isDirty: false,
+    error: null,
+    scrollTop: 0,
+    cursor: 0,
+  }
+}
+
+// Patch one buffer, leaving the map untouched if the tab was closed meanwhile
+function updateBuffer(
+  buffers: Record<string, EditorBuffer>,
+  path: string,
+  update: (buffer: EditorBuffer) => Partial<EditorBuffer>
+): Record<string, EditorBuffer> {
+  const buffer = buffers[path]
+  if (!buffer) return buffers
+  return { ...buffers, [path]: { ...buffer, ...update(buffer) } }
+}
+
 interface CameraState {
   position: { x: number; y: number; z: number }
   target: { x: number; y: number; z: number }
@@ -27,7 +312,20 @@ interface RepoState {
   repoInfo: RepoInfo | null
   rootNode: FolderNode | null
   commits: GitCommit[]
+  totalCommits: number
+  hasMoreCommits: boolean
+  isLoadingCommits: boolean
   layoutNodes: LayoutNode[]
+  pinnedSystems: PinnedSystems // Systems the layout keeps in place
+  layoutStrategy: LayoutStrategyId
+  showGravityWells: boolean // Draw co-change coupling between systems
+  imports: ImportEdge[] // Which files import which
+  importLanes: ImportLaneMode
+  fileMetrics: Record<string, FileMetrics> // Keyed by file path; empty without the dev server
+  metricMapping: MetricMapping // Which metric each planet channel shows
+  showHotspots: boolean // Glow files and folders by churn × size
+  hotspotWindow: HotspotWindowId
+  nodeChanges: Record<string, NodeChangeMarker>
 
   // Navigation state
   viewLevel: ViewLevel
@@ -45,6 +343,16 @@ interface RepoState {
   historyIndex: number
   isPlaying: boolean
   playbackSpeed: number
+  historyCursor: HistoryCursor | null
+  historyRoot: FolderNode | null // Tree rendered in history mode, including exploding nodes
+
+  // Compare mode state
+  comparison: Comparison | null
+
+  // Branches; a viewed branch is rendered read-only in place of the working tree
+  branches: GitBranch[]
+  viewedBranch: string | null
+  branchRoot: FolderNode | null
 
   // Controls state
   keysPressed: Set<string>
@@ -66,6 +374,12 @@ interface RepoState {
   showSettings: boolean
   controlSettings: ControlSettings
   showFPS: boolean
+  showOpenRepo: boolean
+  showChanges: boolean
+  showMetricMapping: boolean
+
+  // Uncommitted changes from `git status`
+  workingFiles: WorkingFileStatus[]
 
   // Landing state
   landingState: LandingState
@@ -74,17 +388,38 @@ interface RepoState {
 
   // Editor state
   isEditorOpen: boolean
-  editorContent: string | null
-  hasUnsavedChanges: boolean
-  editorError: string | null
+  editorBuffers: Record<string, EditorBuffer>
+  editorTabs: string[] // Buffer paths in tab order
+  activeEditorPath: string | null
 
   // Actions
-  loadRepo: () => void
+  loadRepo: () => Promise<void>
+  loadMoreCommits: () => Promise<void>
+  reloadCommits: () => Promise<void>
+  refreshRepoInfo: () => Promise<void>
+  openRepo: (path: string) => Promise<void>
+  expandFolder: (path: string) => Promise<void>
+  refreshWorkingStatus: () => Promise<void>
+  stagePaths: (paths: string[]) => Promise<void>
+  unstagePaths: (paths: string[]) => Promise<void>
+  commitStaged: (options: CommitOptions) => Promise<void>
+  applyRepoChanges: (changes: RepoChange[]) => void
   setViewMode: (mode: ViewMode) => void
   setCameraMode: (mode: CameraMode) => void
   selectNode: (node: RepoNode | null) => void
   hoverNode: (node: RepoNode | null) => void
   setLayoutNodes: (nodes: LayoutNode[]) => void
+  setLayoutStrategy: (strategy: LayoutStrategyId) => void
+  setShowGravityWells: (show: boolean) => void
+  loadImports: () => Promise<void>
+  setImportLanes: (mode: ImportLaneMode) => void
+  loadFileMetrics: () => Promise<void>
+  setMetricMapping: (channel: VisualChannel, metric: MetricId | null) => void
+  setShowHotspots: (show: boolean) => void
+  setHotspotWindow: (window: HotspotWindowId) => Promise<void>
+  loadHotspotHistory: () => Promise<void>
+  pinSystem: (path: string, position: [number, number, number]) => Promise<void>
+  unpinSystem: (path: string) => Promise<void>
 
   // Navigation actions
   enterSystem: (folder: FolderNode) => void
@@ -94,11 +429,21 @@ interface RepoState {
 
   // History actions
   setHistoryIndex: (index: number) => void
+  syncHistoryTree: () => Promise<void>
+  showCommitInHistory: (hash: string) => Promise<void>
   nextCommit: () => void
   prevCommit: () => void
   togglePlayback: () => void
   setPlaybackSpeed: (speed: number) => void
 
+  // Compare actions
+  compareRevisions: (base: string, head: string) => Promise<void>
+
+  // Branch actions
+  loadBranches: () => Promise<void>
+  switchBranch: (name: string) => Promise<void>
+  viewBranch: (name: string | null) => Promise<void>
+
   // Camera actions
   updateCameraPosition: (pos: Partial<CameraState['position']>) => void
   updateCameraTarget: (target: Partial<CameraState['target']>) => void
@@ -117,6 +462,9 @@ interface RepoState {
   setShowSettings: (show: boolean) => void
   setControlSettings: (settings: ControlSettings) => void
   setShowFPS: (show: boolean) => void
+  setShowOpenRepo: (show: boolean) => void
+  setShowChanges: (show: boolean) => void
+  setShowMetricMapping: (show: boolean) => void
 
   // Landing actions
   setLandingState: (state: LandingState) => void
@@ -126,11 +474,16 @@ interface RepoState {
   completeTakeoff: () => void
 
   // Editor actions
-  openEditor: (content: string) => void
-  closeEditor: () => void
-  setEditorContent: (content: string) => void
-  setEditorError: (error: string | null) => void
-  setHasUnsavedChanges: (dirty: boolean) => void
+  openEditorTab: (file: FileNode) => void
+  closeEditorTab: (path: string) => void
+  setActiveEditorTab: (path: string) => void
+  loadEditorBuffer: (path: string, content: string, version: string) => void
+  setEditorContent: (path: string, content: string) => void
+  markEditorSaved: (path: string, content: string, version: string) => void
+  setEditorConflict: (path: string, conflict: EditorConflict | null) => void
+  resolveEditorConflict: (path: string, mergedContent: string) => void
+  setEditorError: (path: string, error: string | null) => void
+  saveEditorViewState: (path: string, viewState: EditorViewState) => void
 }
 
 export const useStore = create<RepoState>((set, get) => ({
@@ -138,7 +491,20 @@ export const useStore = create<RepoState>((set, get) => ({
   repoInfo: null,
   rootNode: null,
   commits: [],
+  totalCommits: 0,
+  hasMoreCommits: false,
+  isLoadingCommits: false,
   layoutNodes: [],
+  pinnedSystems: {},
+  layoutStrategy: 'spiral',
+  showGravityWells: false,
+  imports: [],
+  importLanes: 'off',
+  fileMetrics: {},
+  metricMapping: DEFAULT_METRIC_MAPPING,
+  showHotspots: false,
+  hotspotWindow: 'quarter',
+  nodeChanges: {},
 
   viewLevel: 'galaxy',
   currentSystem: null,
@@ -157,6 +523,12 @@ export const useStore = create<RepoState>((set, get) => ({
   historyIndex: 0,
   isPlaying: false,
   playbackSpeed: 1,
+  historyCursor: null,
+  historyRoot: null,
+  comparison: null,
+  branches: [],
+  viewedBranch: null,
+  branchRoot: null,
 
   keysPressed: new Set(),
   selectedShip: 'custom', // Changed from 'falcon' to test custom ship
@@ -172,6 +544,11 @@ export const useStore = create<RepoState>((set, get) => ({
   showSettings: false,
   controlSettings: DEFAULT_CONTROLS,
   showFPS: false,
+  showOpenRepo: false,
+  showChanges: false,
+  showMetricMapping: false,
+
+  workingFiles: [],
 
   // Landing state
   landingState: 'flying',
@@ -180,17 +557,257 @@ export const useStore = create<RepoState>((set, get) => ({
 
   // Editor state
   isEditorOpen: false,
-  editorContent: null,
-  hasUnsavedChanges: false,
-  editorError: null,
+  editorBuffers: {},
+  editorTabs: [],
+  activeEditorPath: null,
 
   // Actions
-  loadRepo: () => {
-    const repoInfo = getRepoInfo()
-    const rootNode = createDemoRepo()
-    const commits = createDemoCommits()
+  loadRepo: async () => {
+    let repoInfo: RepoInfo
+    try {
+      repoInfo = await fetchRepoInfo()
+    } catch (err) {
+      console.warn('[Store] Failed to load repository info, using demo info:', err)
+      repoInfo = createDemoRepoInfo()
+    }
+
+    let rootNode: FolderNode
+    try {
+      rootNode = await fetchRepoTree()
+    } catch (err) {
+      // No dev server API (e.g. static preview) - fall back to the demo galaxy
+      console.warn('[Store] Failed to load repository tree, using demo repo:', err)
+      rootNode = createDemoRepo()
+    }
+
+    let commits: GitCommit[]
+    let totalCommits: number
+    let hasMoreCommits = false
+    try {
+      const page = await fetchCommitPage(0, COMMIT_PAGE_SIZE)
+      commits = page.commits
+      totalCommits = page.total
+      hasMoreCommits = page.hasMore
+    } catch (err) {
+      console.warn('[Store] Failed to load commit history, using demo commits:', err)
+      commits = createDemoCommits()
+      totalCommits = commits.length
+    }
+
+    let pinnedSystems: PinnedSystems = {}
+    try {
+      pinnedSystems = await fetchPinnedSystems()
+    } catch (err) {
+      console.warn('[Store] Failed to load pinned systems:', err)
+    }
+
+    set({
+      repoInfo,
+      rootNode,
+      commits,
+      totalCommits,
+      hasMoreCommits,
+      pinnedSystems,
+      historyIndex: 0,
+      historyCursor: null,
+      historyRoot: null,
+      comparison: null,
+      viewedBranch: null,
+      branchRoot: null,
+    })
+    await Promise.all([get().refreshWorkingStatus(), get().loadImports(), get().loadFileMetrics()])
+  },
+
+  loadMoreCommits: async () => {
+    const { commits, hasMoreCommits, isLoadingCommits } = get()
+    if (!hasMoreCommits || isLoadingCommits) return
+
+    set({ isLoadingCommits: true })
+    try {
+      const page = await fetchCommitPage(commits.length, COMMIT_PAGE_SIZE)
+      set({
+        commits: [...get().commits, ...page.commits],
+        totalCommits: page.total,
+        hasMoreCommits: page.hasMore,
+      })
+    } catch (err) {
+      console.warn('[Store] Failed to load more commits:', err)
+    } finally {
+      set({ isLoadingCommits: false })
+    }
+  },
+
+  // Start history over from the first page, e.g. after HEAD moved to another branch
+  reloadCommits: async () => {
+    try {
+      const page = await fetchCommitPage(0, COMMIT_PAGE_SIZE)
+      set({
+        commits: page.commits,
+        totalCommits: page.total,
+        hasMoreCommits: page.hasMore,
+        historyIndex: 0,
+        isPlaying: false,
+        historyCursor: null,
+        historyRoot: null,
+      })
+    } catch (err) {
+      console.warn('[Store] Failed to reload commit history:', err)
+    }
+  },
+
+  // Re-read branch/HEAD/dirty state, e.g. after saving a file
+  refreshRepoInfo: async () => {
+    try {
+      set({ repoInfo: await fetchRepoInfo() })
+    } catch (err) {
+      console.warn('[Store] Failed to refresh repository info:', err)
+    }
+    await get().refreshWorkingStatus()
+  },
+
+  // Switch to another repository and rebuild the galaxy from scratch.
+  // Errors propagate so the open dialog can show them.
+  openRepo: async (path) => {
+    await openRepository(path)
+    clearTreeSnapshots()
+
+    set({
+      rootNode: null,
+      pinnedSystems: {},
+      imports: [],
+      fileMetrics: {},
+      nodeChanges: {},
+      commits: [],
+      historyIndex: 0,
+      isPlaying: false,
+      historyCursor: null,
+      historyRoot: null,
+      comparison: null,
+      branches: [],
+      viewedBranch: null,
+      branchRoot: null,
+      selectedNode: null,
+      hoveredNode: null,
+      viewLevel: 'galaxy',
+      currentSystem: null,
+      landingState: 'flying',
+      landingTarget: null,
+      nearestPlanet: null,
+      isEditorOpen: false,
+      editorBuffers: {},
+      editorTabs: [],
+      activeEditorPath: null,
+      showOpenRepo: false,
+      workingFiles: [],
+    })
+
+    await get().loadRepo()
+  },
+
+  expandFolder: async (path) => {
+    try {
+      const folder = await fetchExpandedFolder(path)
+      const { rootNode, selectedNode } = get()
+      if (!rootNode) return
+
+      set({
+        rootNode: replaceFolder(rootNode, path, folder),
+        selectedNode: selectedNode?.path === path ? folder : selectedNode,
+      })
+    } catch (err) {
+      console.warn('[Store] Failed to expand folder:', err)
+    }
+  },
+
+  refreshWorkingStatus: async () => {
+    // Outside a git repository there is nothing to stage
+    if (!get().repoInfo?.branch) {
+      set({ workingFiles: [] })
+      return
+    }
+    try {
+      set({ workingFiles: await fetchWorkingStatus() })
+    } catch (err) {
+      console.warn('[Store] Failed to load git status:', err)
+    }
+  },
+
+  // Index operations and commits throw so the changes panel can show the error
+  stagePaths: async (paths) => {
+    set({ workingFiles: await stageFiles(paths) })
+  },
+
+  unstagePaths: async (paths) => {
+    set({ workingFiles: await unstageFiles(paths) })
+  },
+
+  // The new commit goes to the front of the (newest-first) history and becomes current
+  commitStaged: async (options) => {
+    const commit = await createCommit(options)
+    const { commits, totalCommits } = get()
+    set({
+      commits: [commit, ...commits],
+      totalCommits: totalCommits + 1,
+      historyIndex: 0,
+      historyCursor: null, // Indexes shifted; rebuild from the new HEAD
+      historyRoot: null,
+    })
+    await get().refreshRepoInfo()
+  },
+
+  // Patch the live tree with changes pushed from the file watcher. Deleted nodes
+  // stay in the tree until their collapse animation has played.
+  applyRepoChanges: (changes) => {
+    let { rootNode } = get()
+    if (!rootNode) return
+
+    const at = performance.now()
+    const markers: Record<string, NodeChangeMarker> = {}
+    const removed: string[] = []
+
+    for (const change of changes) {
+      if (change.type === 'upsert') {
+        markChanges(findNode(rootNode, change.node.path), change.node, markers, at)
+        rootNode = upsertNode(rootNode, change.node)
+      } else {
+        const node = findNode(rootNode, change.path)
+        if (!node) continue
+        for (const descendant of flattenTree(node)) {
+          markers[descendant.path] = { kind: 'removed', at }
+        }
+        removed.push(change.path)
+      }
+    }
+
+    set({ rootNode, nodeChanges: { ...get().nodeChanges, ...markers } })
+
+    // Drop deleted nodes once they've collapsed, unless they were re-created meanwhile
+    if (removed.length > 0) {
+      setTimeout(() => {
+        const { rootNode: currentRoot, nodeChanges } = get()
+        if (!currentRoot) return
+        const stillRemoved = removed.filter((path) => nodeChanges[path]?.at === at)
+        set({ rootNode: stillRemoved.reduce(removeNode, currentRoot) })
+      }, PERFORMANCE.changes.collapse * 1000)
+    }
+
+    // Clear the markers after the longest animation so they don't replay
+    const longest = Math.max(PERFORMANCE.changes.fadeIn, PERFORMANCE.changes.collapse, PERFORMANCE.changes.pulse)
+    setTimeout(() => {
+      const nodeChanges = { ...get().nodeChanges }
+      for (const path of Object.keys(markers)) {
+        if (nodeChanges[path]?.at === at) delete nodeChanges[path]
+      }
+      set({ nodeChanges })
+    }, longest * 1000 + 100)
 
-    set({ repoInfo, rootNode, commits })
+    // Edits on disk change the working tree state shown in the HUD, imports and metrics.
+    // One at a time, so the server isn't walking the repository three times over.
+    scheduleRepoRefresh(async () => {
+      await get().refreshRepoInfo()
+      await get().loadImports()
+      await get().loadFileMetrics()
+    })
   },
 
   setViewMode: (viewMode) => set({ viewMode }),
@@ -200,6 +817,81 @@ export const useStore = create<RepoState>((set, get) => ({
   hoverNode: (hoveredNode) => set({ hoveredNode }),
 
   setLayoutNodes: (layoutNodes) => set({ layoutNodes }),
+  setLayoutStrategy: (layoutStrategy) => set({ layoutStrategy }),
+  setShowGravityWells: (showGravityWells) => set({ showGravityWells }),
+
+  // Best effort: without the dev server there are simply no lanes
+  loadImports: async () => {
+    try {
+      set({ imports: await fetchImportGraph() })
+    } catch (err) {
+      console.warn('[Store] Failed to load import graph:', err)
+      set({ imports: [] })
+    }
+  },
+
+  setImportLanes: (importLanes) => set({ importLanes }),
+
+  // Best effort: without the dev server only tree metrics (bytes, age) are available
+  loadFileMetrics: async () => {
+    try {
+      set({ fileMetrics: await fetchFileMetrics() })
+    } catch (err) {
+      console.warn('[Store] Failed to load file metrics:', err)
+      set({ fileMetrics: {} })
+    }
+  },
+
+  setMetricMapping: (channel, metric) => {
+    set({ metricMapping: { ...get().metricMapping, [channel]: metric } })
+  },
+
+  setShowHotspots: (showHotspots) => {
+    set({ showHotspots })
+    if (showHotspots) get().loadHotspotHistory()
+  },
+
+  setHotspotWindow: async (hotspotWindow) => {
+    set({ hotspotWindow })
+    await get().loadHotspotHistory()
+  },
+
+  // Page in older history until it covers the hotspot window, up to a limit
+  loadHotspotHistory: async () => {
+    const covered = () => {
+      const { commits, hotspotWindow } = get()
+      const start = windowStart(commits, hotspotWindow)
+      return start !== null && commits[commits.length - 1].date < start
+    }
+
+    while (!covered() && get().hasMoreCommits && get().commits.length < PERFORMANCE.hotspots.maxCommits) {
+      const loaded = get().commits.length
+      await get().loadMoreCommits()
+      if (get().commits.length === loaded) break // Paging failed, or a page is already loading
+    }
+  },
+
+  // Pins apply right away; saving them is best effort so they still hold for
+  // this session without the dev server
+  pinSystem: async (path, position) => {
+    set({ pinnedSystems: { ...get().pinnedSystems, [path]: position } })
+    try {
+      await savePinnedSystem(path, position)
+    } catch (err) {
+      console.warn('[Store] Failed to save pinned system:', err)
+    }
+  },
+
+  unpinSystem: async (path) => {
+    const pinnedSystems = { ...get().pinnedSystems }
+    delete pinnedSystems[path]
+    set({ pinnedSystems })
+    try {
+      await savePinnedSystem(path, null)
+    } catch (err) {
+      console.warn('[Store] Failed to save unpinned system:', err)
+    }
+  },
 
   // Navigation actions
   enterSystem: (folder) => {
@@ -228,11 +920,90 @@ export const useStore = create<RepoState>((set, get) => ({
   // History actions
   setHistoryIndex: (historyIndex) => set({ historyIndex }),
 
+  // Show the tree committed at historyIndex and mark what changed since the last
+  // commit shown, so planets accrete, explode and flare
+  syncHistoryTree: async () => {
+    const { viewMode, rootNode, commits, historyIndex, historyCursor, historyRoot } = get()
+    if (viewMode !== 'history' || commits.length === 0) {
+      if (historyCursor || historyRoot) set({ historyCursor: null, historyRoot: null })
+      return
+    }
+
+    const target = Math.min(historyIndex, commits.length - 1)
+    const commit = commits[target]
+    if (historyCursor?.hash === commit.hash) return
+
+    let root: FolderNode
+    try {
+      root = await loadTreeSnapshot(commit.hash)
+    } catch (err) {
+      // No tree API (e.g. demo commits) - estimate the tree from commit file lists
+      console.warn('[Store] Failed to load tree snapshot, replaying commit history instead:', err)
+      if (!rootNode) return
+      root = replayHistory(historyCursor, rootNode, commits, target)
+    }
+
+    // Bail if the timeline moved on (or history mode closed) while loading
+    const state = get()
+    if (state.viewMode !== 'history' || state.commits[Math.min(state.historyIndex, state.commits.length - 1)] !== commit) {
+      return
+    }
+
+    // Playback heads towards HEAD, so have the next snapshot ready
+    if (target > 0) prefetchTreeSnapshot(commits[target - 1].hash)
+
+    const cursor = state.historyCursor
+    const nextCursor = { index: target, hash: commit.hash, root }
+    if (!cursor) {
+      set({ historyCursor: nextCursor, historyRoot: root })
+      return
+    }
+
+    const diff = diffTreeSnapshots(cursor.hash, cursor.root, commit.hash, root)
+    const markers = getTransitionMarkers(diff)
+    set({
+      historyCursor: nextCursor,
+      historyRoot: withGhosts(root, cursor.root, diff.removed),
+      nodeChanges: { ...get().nodeChanges, ...markers },
+    })
+    clearMarkersLater(markers)
+
+    // Drop the exploded nodes once they've burst, unless history has moved on
+    if (diff.removed.length > 0) {
+      setTimeout(() => {
+        if (get().historyCursor === nextCursor) set({ historyRoot: root })
+      }, PERFORMANCE.history.explode * 1000)
+    }
+  },
+
+  // Jump History mode to a commit, paging in older history until it turns up
+  showCommitInHistory: async (hash) => {
+    const findIndex = () => get().commits.findIndex((commit) => commit.hash === hash)
+
+    let index = findIndex()
+    while (index === -1 && get().hasMoreCommits) {
+      const loaded = get().commits.length
+      await get().loadMoreCommits()
+      if (get().commits.length === loaded) break // Paging failed
+      index = findIndex()
+    }
+
+    if (index === -1) {
+      console.warn('[Store] Commit not found in history:', hash)
+      return
+    }
+    set({ viewMode: 'history', historyIndex: index, isPlaying: false })
+  },
+
   nextCommit: () => {
-    const { historyIndex, commits } = get()
+    const { historyIndex, commits, hasMoreCommits, loadMoreCommits } = get()
     if (historyIndex < commits.length - 1) {
       set({ historyIndex: historyIndex + 1 })
     }
+    // Fetch the next page before the timeline runs out
+    if (hasMoreCommits && historyIndex + 1 >= commits.length - 1) {
+      loadMoreCommits()
+    }
   },
 
   prevCommit: () => {
@@ -242,13 +1013,103 @@ export const useStore = create<RepoState>((set, get) => ({
     }
   },
 
+  // Playback runs towards HEAD; starting from HEAD rewinds to the oldest loaded commit first
   togglePlayback: () => {
-    const { isPlaying } = get()
+    const { isPlaying, historyIndex, commits } = get()
+    if (!isPlaying && historyIndex === 0 && commits.length > 1) {
+      set({ isPlaying: true, historyIndex: commits.length - 1 })
+      return
+    }
     set({ isPlaying: !isPlaying })
   },
 
   setPlaybackSpeed: (playbackSpeed) => set({ playbackSpeed }),
 
+  loadBranches: async () => {
+    try {
+      set({ branches: await fetchBranches() })
+    } catch (err) {
+      console.warn('[Store] Failed to load branches:', err)
+    }
+  },
+
+  // Check out a branch and morph the galaxy into its tree. Errors propagate
+  // (DIRTY_WORKTREE when there are uncommitted changes) so the picker can offer
+  // a read-only view instead.
+  switchBranch: async (name) => {
+    const previous = get().branchRoot ?? get().rootNode
+    const repoInfo = await checkoutBranch(name)
+    const next = await fetchRepoTree()
+
+    set({ repoInfo, viewedBranch: null, branchRoot: null })
+    morphTree(previous, next, (root) => set({ rootNode: root }), () => get().rootNode)
+
+    await Promise.all([get().reloadCommits(), get().loadBranches(), get().refreshWorkingStatus()])
+  },
+
+  // Render another branch's committed tree without checking it out; null goes
+  // back to the working tree
+  viewBranch: async (name) => {
+    const { branches, rootNode, branchRoot } = get()
+    const previous = branchRoot ?? rootNode
+    const branch = branches.find((candidate) => candidate.name === name)
+
+    if (!branch || branch.isCurrent || !rootNode) {
+      set({ viewedBranch: null })
+      if (branchRoot && rootNode) {
+        // Morph back to the working tree, then hand over to it
+        morphTree(branchRoot, rootNode, (root) => set({ branchRoot: root }), () => get().branchRoot)
+        setTimeout(() => {
+          if (!get().viewedBranch) set({ branchRoot: null })
+        }, PERFORMANCE.history.explode * 1000)
+      }
+      return
+    }
+
+    const next = await loadTreeSnapshot(branch.hash)
+    set({ viewedBranch: name })
+    morphTree(previous, next, (root) => set({ branchRoot: root }), () => get().branchRoot)
+  },
+
+  // Load both trees and the diff between them, then switch to compare mode.
+  // Errors propagate so the compare panel can show them.
+  compareRevisions: async (base, head) => {
+    const diff = await fetchRevisionDiff(base, head)
+    const [baseTree, headTree] = await Promise.all([
+      loadTreeSnapshot(diff.base),
+      loadTreeSnapshot(diff.head),
+    ])
+
+    const files = diff.files.map((file): ComparedFile => ({
+      path: file.path,
+      ...(file.oldPath ? { oldPath: file.oldPath } : {}),
+      status: toComparedStatus(file.status),
+      additions: file.additions,
+      deletions: file.deletions,
+    }))
+
+    // A renamed file's old path departs from where it was, unless head has a file there again
+    const departed = files.flatMap((file): ComparedFile[] =>
+      file.oldPath && !findNode(headTree, file.oldPath)
+        ? [{ path: file.oldPath, renamedTo: file.path, status: 'removed', additions: 0, deletions: 0 }]
+        : []
+    )
+    const removed = [...files, ...departed].filter((file) => file.status === 'removed').map((file) => file.path)
+
+    set({
+      viewMode: 'compare',
+      comparison: {
+        base,
+        head,
+        baseHash: diff.base,
+        headHash: diff.head,
+        root: withGhosts(headTree, baseTree, removed),
+        files,
+        byPath: Object.fromEntries([...departed, ...files].map((file) => [file.path, file])),
+      },
+    })
+  },
+
   // Camera actions
   updateCameraPosition: (pos) => {
     const { camera } = get()
@@ -305,6 +1166,9 @@ export const useStore = create<RepoState>((set, get) => ({
   setShowSettings: (showSettings) => set({ showSettings }),
   setControlSettings: (controlSettings) => set({ controlSettings }),
   setShowFPS: (showFPS) => set({ showFPS }),
+  setShowOpenRepo: (showOpenRepo) => set({ showOpenRepo }),
+  setShowChanges: (showChanges) => set({ showChanges }),
+  setShowMetricMapping: (showMetricMapping) => set({ showMetricMapping }),
 
   // Landing actions
   setLandingState: (landingState) => set({ landingState }),
@@ -316,52 +1180,118 @@ export const useStore = create<RepoState>((set, get) => ({
       landingState: 'landed',
       landingTarget: planet,
       cameraMode: 'orbit', // Switch to orbit mode when landed
-      isEditorOpen: true,
     })
+    get().openEditorTab(planet)
   },
 
+  // Open buffers (and their unsaved edits) stay around for the next landing
   completeTakeoff: () => {
     set({
       landingState: 'flying',
       landingTarget: null,
       isEditorOpen: false,
-      editorContent: null,
-      hasUnsavedChanges: false,
-      editorError: null,
       cameraMode: 'fly', // Return to fly mode
     })
   },
 
   // Editor actions
-  openEditor: (content) => {
+  openEditorTab: (file) => {
+    const { editorBuffers, editorTabs } = get()
+    const isOpen = file.path in editorBuffers
     set({
       isEditorOpen: true,
-      editorContent: content,
-      hasUnsavedChanges: false,
-      editorError: null,
+      activeEditorPath: file.path,
+      editorBuffers: isOpen ? editorBuffers : { ...editorBuffers, [file.path]: createEditorBuffer(file) },
+      editorTabs: isOpen ? editorTabs : [...editorTabs, file.path],
     })
   },
 
-  closeEditor: () => {
+  closeEditorTab: (path) => {
+    const { editorBuffers, editorTabs, activeEditorPath } = get()
+    const index = editorTabs.indexOf(path)
+    if (index === -1) return
+
+    const remainingTabs = editorTabs.filter((tab) => tab !== path)
+    const remainingBuffers = { ...editorBuffers }
+    delete remainingBuffers[path]
+
+    // Activate the neighbouring tab, like most editors do
+    const nextActive = activeEditorPath === path
+      ? remainingTabs[Math.min(index, remainingTabs.length - 1)] ?? null
+      : activeEditorPath
+
     set({
-      isEditorOpen: false,
-      editorContent: null,
-      hasUnsavedChanges: false,
-      editorError: null,
+      editorBuffers: remainingBuffers,
+      editorTabs: remainingTabs,
+      activeEditorPath: nextActive,
+      isEditorOpen: remainingTabs.length > 0 && get().isEditorOpen,
+    })
+  },
+
+  setActiveEditorTab: (activeEditorPath) => set({ activeEditorPath }),
+
+  loadEditorBuffer: (path, content, version) => {
+    set({
+      editorBuffers: updateBuffer(get().editorBuffers, path, () => ({
+        content,
+        baseContent: content,
+        version,
+        conflict: null,
+        isDirty: false,
+        error: null,
+      })),
+    })
+  },
+
+  setEditorContent: (path, content) => {
+    set({
+      editorBuffers: updateBuffer(get().editorBuffers, path, (buffer) => ({
+        content,
+        isDirty: content !== buffer.baseContent,
+      })),
+    })
+  },
+
+  markEditorSaved: (path, content, version) => {
+    set({
+      editorBuffers: updateBuffer(get().editorBuffers, path, (buffer) => ({
+        baseContent: content,
+        version,
+        conflict: null,
+        isDirty: buffer.content !== content,
+        error: null,
+      })),
     })
   },
 
-  setEditorContent: (content) => {
-    const { editorContent } = get()
+  setEditorConflict: (path, conflict) => {
+    set({ editorBuffers: updateBuffer(get().editorBuffers, path, () => ({ conflict })) })
+  },
+
+  // Adopt the disk version as the new base, keeping the merged text as unsaved edits
+  resolveEditorConflict: (path, mergedContent) => {
     set({
-      editorContent: content,
-      hasUnsavedChanges: content !== editorContent,
+      editorBuffers: updateBuffer(get().editorBuffers, path, (buffer) => {
+        if (!buffer.conflict) return {}
+        return {
+          content: mergedContent,
+          baseContent: buffer.conflict.content,
+          version: buffer.conflict.version,
+          conflict: null,
+          isDirty: mergedContent !== buffer.conflict.content,
+          error: null,
+        }
+      }),
     })
   },
 
-  setEditorError: (editorError) => set({ editorError }),
+  setEditorError: (path, error) => {
+    set({ editorBuffers: updateBuffer(get().editorBuffers, path, () => ({ error })) })
+  },
 
-  setHasUnsavedChanges: (hasUnsavedChanges) => set({ hasUnsavedChanges }),
+  saveEditorViewState: (path, { scrollTop, cursor }) => {
+    set({ editorBuffers: updateBuffer(get().editorBuffers, path, () => ({ scrollTop, cursor })) })
+  },
 }))
 
 // Selector hooks for performance
@@ -382,14 +1312,48 @@ export const useHistoryState = () =>
     playbackSpeed: s.playbackSpeed,
     commits: s.commits,
   }))
+export const useCompareStatus = (path: string): CompareStatus | null =>
+  useStore((s) =>
+    s.viewMode === 'compare' && s.comparison ? s.comparison.byPath[path]?.status ?? 'unchanged' : null
+  )
+export const useComparedFile = (path: string) => useStore((s) => s.comparison?.byPath[path] ?? null)
+export const useHistoryChangeKind = (path: string): HistoryChangeKind | null =>
+  useStore((s) => {
+    const kind = s.nodeChanges[path]?.kind
+    return kind === 'accreted' || kind === 'exploded' || kind === 'flared' ? kind : null
+  })
+
+// Hotspots for the current tree, computed once per history, tree and window
+let hotspotCache: { commits: GitCommit[]; root: FolderNode; window: HotspotWindowId; hotspots: Hotspots } | null = null
+
+function selectHotspots(s: RepoState): Hotspots | null {
+  if (!s.showHotspots || !s.rootNode) return null
+  const cached = hotspotCache
+  if (cached?.commits === s.commits && cached.root === s.rootNode && cached.window === s.hotspotWindow) {
+    return cached.hotspots
+  }
+  const hotspots = computeHotspots(s.commits, s.rootNode, s.hotspotWindow)
+  hotspotCache = { commits: s.commits, root: s.rootNode, window: s.hotspotWindow, hotspots }
+  return hotspots
+}
+
+export const useHotspots = () => useStore(selectHotspots)
+export const useFileHeat = (path: string): number | null => useStore((s) => selectHotspots(s)?.byPath[path]?.heat ?? null)
+export const useFolderHeat = (path: string): number | null => useStore((s) => selectHotspots(s)?.folderHeat[path] ?? null)
 
 // Landing state selectors
 export const useLandingState = () => useStore((s) => s.landingState)
 export const useLandingTarget = () => useStore((s) => s.landingTarget)
 export const useNearestPlanet = () => useStore((s) => s.nearestPlanet)
 
+// Working tree selectors
+export const useWorkingFiles = () => useStore((s) => s.workingFiles)
+export const useIsStaged = (path: string) =>
+  useStore((s) => s.workingFiles.some((file) => file.path === path && file.staged !== null))
+
 // Editor state selectors
 export const useIsEditorOpen = () => useStore((s) => s.isEditorOpen)
-export const useEditorContent = () => useStore((s) => s.editorContent)
-export const useEditorHasUnsavedChanges = () => useStore((s) => s.hasUnsavedChanges)
-export const useEditorError = () => useStore((s) => s.editorError)
+export const useEditorTabs = () => useStore((s) => s.editorTabs)
+export const useEditorBuffers = () => useStore((s) => s.editorBuffers)
+export const useActiveEditorBuffer = () =>
+  useStore((s) => (s.activeEditorPath ? s.editorBuffers[s.activeEditorPath] ?? null : null))
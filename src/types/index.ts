@@ -8,6 +8,7 @@ export interface FileNode {
   extension: string
   size: number
   lastModified: Date
+  blob?: string // git object id, set on trees read at a past revision
   position?: { x: number; y: number; z: number }
 }
 
@@ -18,10 +19,17 @@ export interface FolderNode {
   type: 'folder'
   children: (FileNode | FolderNode)[]
   position?: { x: number; y: number; z: number }
+  collapsed?: boolean // placeholder whose children haven't been loaded yet
+  ignored?: boolean // hidden by .gitignore or gitlaxy.config.json
 }
 
 export type RepoNode = FileNode | FolderNode
 
+// Incremental tree update pushed by the dev server when files change on disk
+export type RepoChange =
+  | { type: 'upsert'; node: RepoNode }
+  | { type: 'remove'; path: string }
+
 export interface GitCommit {
   hash: string
   shortHash: string
@@ -40,11 +48,56 @@ export interface CommitFile {
   deletions: number
 }
 
+// Uncommitted state of one path, as `git status` reports it
+export type WorkingChangeStatus = 'added' | 'modified' | 'deleted' | 'renamed' | 'untracked' | 'conflicted'
+
+export interface WorkingFileStatus {
+  path: string
+  oldPath?: string // for renames recorded in the index
+  staged: WorkingChangeStatus | null // change recorded in the index
+  unstaged: WorkingChangeStatus | null // change only in the working tree
+}
+
+// Per-line authorship from `git blame`
+export interface BlameCommit {
+  hash: string
+  shortHash: string
+  author: string
+  email: string
+  date: Date
+  summary: string
+}
+
+export interface FileBlame {
+  commits: Record<string, BlameCommit>
+  lines: string[] // commit hash for each line, in file order
+}
+
+export interface GitBranch {
+  name: string // Short name, e.g. "main" or "origin/main"
+  hash: string
+  isRemote: boolean
+  isCurrent: boolean
+  upstream?: string // Tracked remote branch, for local branches
+  date: Date // Date of the branch's latest commit
+}
+
+export interface RepoRemote {
+  name: string
+  url: string
+}
+
 export interface RepoInfo {
   name: string
   path: string
-  branch: string
-  remoteUrl?: string
+  branch: string // empty when not a git repository, "HEAD" when detached
+  remoteUrl?: string // url of "origin", or the first remote
+  headCommit?: string // undefined before the first commit
+  upstream?: string
+  ahead: number
+  behind: number
+  remotes: RepoRemote[]
+  isDirty: boolean
 }
 
 export interface LayoutNode {
@@ -57,8 +110,49 @@ export interface LayoutNode {
   vz: number
   node: RepoNode
   parentId?: string
+  pinned?: boolean // Exerts forces but never moves
 }
 
+// Measurements of a file beyond what the tree carries, read by the dev server
+export interface FileMetrics {
+  lines: number // Non-blank lines, 0 for binary files
+  complexity: number // Decision points + 1 for code files, 0 otherwise
+  commits: number // Commits touching the file
+  authors: number // Distinct commit authors
+}
+
+// One file importing another, both as repo paths (the galaxy's file ids)
+export interface ImportEdge {
+  from: string
+  to: string
+}
+
+// Extra spring between two layout nodes, e.g. folders that change together
+export interface LayoutLink {
+  source: string
+  target: string
+  weight: number // 0-1, scales the spring's pull
+}
+
+// Solar systems held at a fixed spot, keyed by folder path. Saved per repository.
+export type PinnedSystems = Record<string, [number, number, number]>
+
+// Machine-readable error codes the dev-server API sends alongside its messages
+export type ApiErrorCode =
+  | 'INVALID_REQUEST'
+  | 'NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED'
+  | 'PATH_OUTSIDE_ROOT'
+  | 'GIT_INTERNAL'
+  | 'BINARY_FILE'
+  | 'FILE_TOO_LARGE'
+  | 'BODY_TOO_LARGE'
+  | 'VERSION_CONFLICT'
+  | 'DIRTY_WORKTREE'
+  | 'CHECKOUT_FAILED'
+  | 'CROSS_ORIGIN'
+  | 'INTERNAL_ERROR'
+
 // Extension to color mapping for visual variety
 export const EXTENSION_COLORS: Record<string, string> = {
   // JavaScript/TypeScript
@@ -0,0 +1,141 @@
+// CodeMirror gutter showing `git blame` authorship next to each line
+import { gutter, GutterMarker } from '@codemirror/view'
+import { StateField, type ChangeSet, type EditorState, type Extension, type Text } from '@codemirror/state'
+import type { BlameCommit, FileBlame } from '../types'
+
+// git blame attributes working-tree edits to an all-zero hash
+export function isUncommittedHash(hash: string): boolean {
+  return /^0+$/.test(hash)
+}
+
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * 24 * 3600],
+  ['month', 30 * 24 * 3600],
+  ['week', 7 * 24 * 3600],
+  ['day', 24 * 3600],
+  ['hour', 3600],
+  ['minute', 60],
+]
+
+const relativeFormat = new Intl.RelativeTimeFormat(undefined, { numeric: 'auto', style: 'short' })
+
+export function formatRelativeDate(date: Date, now = Date.now()): string {
+  const seconds = (date.getTime() - now) / 1000
+  for (const [unit, size] of RELATIVE_UNITS) {
+    if (Math.abs(seconds) >= size) {
+      return relativeFormat.format(Math.round(seconds / size), unit)
+    }
+  }
+  return 'just now'
+}
+
+class BlameMarker extends GutterMarker {
+  commit: BlameCommit
+  isContinuation: boolean
+
+  constructor(commit: BlameCommit, isContinuation: boolean) {
+    super()
+    this.commit = commit
+    this.isContinuation = isContinuation
+  }
+
+  eq(other: BlameMarker) {
+    return other.commit.hash === this.commit.hash && other.isContinuation === this.isContinuation
+  }
+
+  toDOM() {
+    const element = document.createElement('div')
+    const { commit } = this
+    const uncommitted = isUncommittedHash(commit.hash)
+
+    element.className = `cm-blame-entry${this.isContinuation ? ' continuation' : ''}${uncommitted ? ' uncommitted' : ''}`
+    element.title = uncommitted
+      ? 'Not committed yet'
+      : `${commit.shortHash} ${commit.author} <${commit.email}>\n${commit.date.toLocaleString()}\n\n${commit.summary}`
+
+    const author = document.createElement('span')
+    author.className = 'cm-blame-author'
+    author.textContent = uncommitted ? 'You' : commit.author
+    const hash = document.createElement('span')
+    hash.className = 'cm-blame-hash'
+    hash.textContent = uncommitted ? '·······' : commit.shortHash
+    const date = document.createElement('span')
+    date.className = 'cm-blame-date'
+    date.textContent = uncommitted ? 'uncommitted' : formatRelativeDate(commit.date)
+
+    element.append(author, hash, date)
+    return element
+  }
+}
+
+// Blamed commit per document line, or null for lines edited since
+type LineHashes = (string | null)[]
+
+/**
+ * Carry line hashes through an edit. Lines a change touches become null, since
+ * git blame would no longer pin them on a commit either, except a line the
+ * change only breaks away from: text ending in a line break inserted at the
+ * start of a line pushes it down intact, one starting with a line break at the
+ * end of a line leaves it as it was, and the same goes for deleting whole lines.
+ */
+function mapLineHashes(hashes: LineHashes, changes: ChangeSet, oldDoc: Text, newDoc: Text): LineHashes {
+  const edits: { first: number; last: number; lines: LineHashes }[] = []
+
+  changes.iterChanges((fromA, toA, fromB, toB, inserted) => {
+    const firstOld = oldDoc.lineAt(fromA)
+    const lastOld = oldDoc.lineAt(toA)
+    const lines: LineHashes = new Array(newDoc.lineAt(toB).number - newDoc.lineAt(fromB).number + 1).fill(null)
+
+    const text = inserted.length > 0 ? inserted.sliceString(0, 1) + inserted.sliceString(inserted.length - 1) : ''
+    if (fromA === firstOld.to && toA === lastOld.to && (text === '' || text[0] === '\n')) {
+      lines[0] = hashes[firstOld.number - 1] ?? null
+    }
+    if (fromA === firstOld.from && toA === lastOld.from && (text === '' || text[1] === '\n')) {
+      lines[lines.length - 1] = hashes[lastOld.number - 1] ?? null
+    }
+    edits.push({ first: firstOld.number - 1, last: lastOld.number - 1, lines })
+  })
+
+  // Back to front, so earlier line numbers stay valid
+  const next = [...hashes]
+  for (const { first, last, lines } of edits.reverse()) next.splice(first, last - first + 1, ...lines)
+  return next
+}
+
+// One marker per line; lines continuing the previous line's commit are dimmed
+export function blameGutter(blame: FileBlame, onSelectCommit: (hash: string) => void): Extension {
+  const lineHashes = StateField.define<LineHashes>({
+    create: (state) => Array.from({ length: state.doc.lines }, (_, i) => blame.lines[i] ?? null),
+    update: (hashes, tr) => (tr.docChanged ? mapLineHashes(hashes, tr.changes, tr.startState.doc, tr.state.doc) : hashes),
+  })
+
+  const markers = new Map<string, BlameMarker>()
+  const markerFor = (hash: string, isContinuation: boolean) => {
+    const key = `${hash}${isContinuation ? '+' : ''}`
+    if (!markers.has(key)) markers.set(key, new BlameMarker(blame.commits[hash], isContinuation))
+    return markers.get(key)!
+  }
+  const hashAt = (state: EditorState, pos: number) => state.field(lineHashes)[state.doc.lineAt(pos).number - 1] ?? null
+
+  return [
+    lineHashes,
+    gutter({
+      class: 'cm-blame-gutter',
+      lineMarker(view, line) {
+        const hashes = view.state.field(lineHashes)
+        const index = view.state.doc.lineAt(line.from).number - 1
+        const hash = hashes[index]
+        return hash ? markerFor(hash, index > 0 && hashes[index - 1] === hash) : null
+      },
+      lineMarkerChange: (update) => update.docChanged,
+      domEventHandlers: {
+        click(view, line) {
+          const hash = hashAt(view.state, line.from)
+          if (!hash || isUncommittedHash(hash)) return false
+          onSelectCommit(hash)
+          return true
+        },
+      },
+    }),
+  ]
+}
@@ -0,0 +1,62 @@
+// Co-change coupling: folders whose files keep landing in the same commits are
+// coupled, however far apart they sit in the tree
+
+import type { FolderNode, GitCommit } from '../types'
+import { PERFORMANCE } from '../config/performance'
+import { flattenTree, getParentPath } from './gitParser'
+
+export interface CoChangeLink {
+  a: string // Folder paths, `a` sorting first
+  b: string
+  commits: number // Commits touching both
+  strength: number // Shared commits over commits touching either, 0-1
+}
+
+// The deepest folder still in the tree that holds `path`, or null for files at the root
+function owningFolder(path: string, folders: Set<string>): string | null {
+  for (let folder = getParentPath(path); folder !== '/'; folder = getParentPath(folder)) {
+    if (folders.has(folder)) return folder
+  }
+  return null
+}
+
+/**
+ * Count how often each pair of folders changes in the same commit, strongest
+ * pairs first. Folders that no longer exist are skipped, and commits touching
+ * more than `maxFoldersPerCommit` folders are ignored.
+ */
+export function computeCoChange(commits: GitCommit[], root: FolderNode): CoChangeLink[] {
+  const { minSharedCommits, maxFoldersPerCommit, maxLinks } = PERFORMANCE.coupling
+  const folders = new Set(flattenTree(root).filter((node) => node.type === 'folder').map((node) => node.path))
+  const changes = new Map<string, number>() // Commits touching each folder
+  const shared = new Map<string, number>() // Commits touching both folders, keyed "a\nb"
+
+  for (const commit of commits) {
+    const touched = new Set<string>()
+    for (const file of commit.files) {
+      const folder = owningFolder(file.path, folders)
+      if (folder) touched.add(folder)
+    }
+    if (touched.size > maxFoldersPerCommit) continue
+
+    const sorted = [...touched].sort()
+    sorted.forEach((a, i) => {
+      changes.set(a, (changes.get(a) ?? 0) + 1)
+      for (const b of sorted.slice(i + 1)) {
+        const key = `${a}\n${b}`
+        shared.set(key, (shared.get(key) ?? 0) + 1)
+      }
+    })
+  }
+
+  const links: CoChangeLink[] = []
+  for (const [key, count] of shared) {
+    if (count < minSharedCommits) continue
+    const [a, b] = key.split('\n')
+    links.push({ a, b, commits: count, strength: count / (changes.get(a)! + changes.get(b)! - count) })
+  }
+
+  return links
+    .sort((x, y) => y.strength - x.strength || y.commits - x.commits)
+    .slice(0, maxLinks)
+}
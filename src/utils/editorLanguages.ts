@@ -0,0 +1,98 @@
+// CodeMirror language support per file extension. Keys follow EXTENSION_COLORS;
+// each mode is imported lazily so only languages actually opened get downloaded.
+import { StreamLanguage, type StreamParser } from '@codemirror/language'
+import type { Extension } from '@codemirror/state'
+
+const legacy = (parser: StreamParser<unknown>): Extension => StreamLanguage.define(parser)
+
+const LANGUAGE_LOADERS: Record<string, () => Promise<Extension>> = {
+  // JavaScript/TypeScript
+  ts: () => import('@codemirror/lang-javascript').then((m) => m.javascript({ typescript: true })),
+  tsx: () => import('@codemirror/lang-javascript').then((m) => m.javascript({ typescript: true, jsx: true })),
+  js: () => import('@codemirror/lang-javascript').then((m) => m.javascript()),
+  jsx: () => import('@codemirror/lang-javascript').then((m) => m.javascript({ jsx: true })),
+
+  // Web
+  html: () => import('@codemirror/lang-html').then((m) => m.html()),
+  css: () => import('@codemirror/lang-css').then((m) => m.css()),
+  scss: () => import('@codemirror/lang-sass').then((m) => m.sass()),
+  less: () => import('@codemirror/lang-less').then((m) => m.less()),
+
+  // Config
+  json: () => import('@codemirror/lang-json').then((m) => m.json()),
+  yaml: () => import('@codemirror/lang-yaml').then((m) => m.yaml()),
+  yml: () => import('@codemirror/lang-yaml').then((m) => m.yaml()),
+  toml: () => import('@codemirror/legacy-modes/mode/toml').then((m) => legacy(m.toml)),
+  xml: () => import('@codemirror/lang-xml').then((m) => m.xml()),
+
+  // Documentation
+  md: () => import('@codemirror/lang-markdown').then((m) => m.markdown()),
+  mdx: () => import('@codemirror/lang-markdown').then((m) => m.markdown()),
+
+  // Backend
+  py: () => import('@codemirror/lang-python').then((m) => m.python()),
+  rb: () => import('@codemirror/legacy-modes/mode/ruby').then((m) => legacy(m.ruby)),
+  go: () => import('@codemirror/lang-go').then((m) => m.go()),
+  rs: () => import('@codemirror/lang-rust').then((m) => m.rust()),
+  java: () => import('@codemirror/lang-java').then((m) => m.java()),
+  kt: () => import('@codemirror/legacy-modes/mode/clike').then((m) => legacy(m.kotlin)),
+  scala: () => import('@codemirror/legacy-modes/mode/clike').then((m) => legacy(m.scala)),
+
+  // Systems
+  c: () => import('@codemirror/lang-cpp').then((m) => m.cpp()),
+  cpp: () => import('@codemirror/lang-cpp').then((m) => m.cpp()),
+  h: () => import('@codemirror/lang-cpp').then((m) => m.cpp()),
+  hpp: () => import('@codemirror/lang-cpp').then((m) => m.cpp()),
+
+  // Shell
+  sh: () => import('@codemirror/legacy-modes/mode/shell').then((m) => legacy(m.shell)),
+  bash: () => import('@codemirror/legacy-modes/mode/shell').then((m) => legacy(m.shell)),
+  zsh: () => import('@codemirror/legacy-modes/mode/shell').then((m) => legacy(m.shell)),
+
+  // Data
+  sql: () => import('@codemirror/lang-sql').then((m) => m.sql()),
+}
+
+// Display names for the editor footer
+const LANGUAGE_NAMES: Record<string, string> = {
+  ts: 'TypeScript',
+  tsx: 'TypeScript JSX',
+  js: 'JavaScript',
+  jsx: 'JavaScript JSX',
+  html: 'HTML',
+  css: 'CSS',
+  scss: 'SCSS',
+  less: 'Less',
+  json: 'JSON',
+  yaml: 'YAML',
+  yml: 'YAML',
+  toml: 'TOML',
+  xml: 'XML',
+  md: 'Markdown',
+  mdx: 'MDX',
+  py: 'Python',
+  rb: 'Ruby',
+  go: 'Go',
+  rs: 'Rust',
+  java: 'Java',
+  kt: 'Kotlin',
+  scala: 'Scala',
+  c: 'C',
+  cpp: 'C++',
+  h: 'C Header',
+  hpp: 'C++ Header',
+  sh: 'Shell',
+  bash: 'Bash',
+  zsh: 'Zsh',
+  sql: 'SQL',
+}
+
+// Resolves to null for extensions without a mode (plain text)
+export async function loadLanguage(extension: string): Promise<Extension | null> {
+  const loader = LANGUAGE_LOADERS[extension.toLowerCase()]
+  return loader ? loader() : null
+}
+
+export function getLanguageName(extension: string): string {
+  return LANGUAGE_NAMES[extension.toLowerCase()] || extension.toUpperCase() || 'TEXT'
+}
@@ -1,45 +1,124 @@
 // File API client for reading and writing files via the dev server
 
+import type { ApiErrorCode, FileBlame } from '../types'
+
 interface ReadFileResponse {
   content: string
   path: string
+  version: string
 }
 
 interface WriteFileResponse {
   success: boolean
   path: string
+  version: string
+}
+
+interface HeadFileResponse {
+  exists: boolean
+  content: string
+  path: string
+}
+
+interface BlameResponse {
+  blame: FileBlame
+}
+
+// File content plus the version token to send back when saving it
+export interface FileSnapshot {
+  content: string
+  version: string
 }
 
+// Codes sent by the server
+export type FileApiErrorCode = ApiErrorCode
+
 interface ErrorResponse {
   error: string
+  code?: FileApiErrorCode
+}
+
+// Error thrown by readFile/writeFile, carrying the server's code so callers can
+// tell "file too large" apart from "not allowed" or a plain failure
+export class FileApiError extends Error {
+  code: FileApiErrorCode
+  status: number
+
+  constructor(message: string, code: FileApiErrorCode, status: number) {
+    super(message)
+    this.name = 'FileApiError'
+    this.code = code
+    this.status = status
+  }
 }
 
-export async function readFile(filePath: string): Promise<string> {
+async function toFileApiError(response: Response, fallback: string): Promise<FileApiError> {
+  const data = await response.json().catch(() => ({})) as Partial<ErrorResponse>
+  return new FileApiError(data.error || fallback, data.code ?? 'INTERNAL_ERROR', response.status)
+}
+
+export async function readFile(filePath: string): Promise<FileSnapshot> {
   const response = await fetch('/api/file/read', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ filePath }),
   })
 
-  const data = await response.json() as ReadFileResponse | ErrorResponse
+  if (!response.ok) {
+    throw await toFileApiError(response, 'Failed to read file')
+  }
+
+  const data = await response.json() as ReadFileResponse
+  return { content: data.content, version: data.version }
+}
+
+// Committed content at HEAD; exists is false for files added since the last commit
+export async function readHeadFile(filePath: string): Promise<{ exists: boolean; content: string }> {
+  const response = await fetch('/api/file/head', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ filePath }),
+  })
 
   if (!response.ok) {
-    throw new Error((data as ErrorResponse).error || 'Failed to read file')
+    throw await toFileApiError(response, 'Failed to read HEAD version')
   }
 
-  return (data as ReadFileResponse).content
+  const data = await response.json() as HeadFileResponse
+  return { exists: data.exists, content: data.content }
 }
 
-export async function writeFile(filePath: string, content: string): Promise<void> {
-  const response = await fetch('/api/file/write', {
+export async function readBlame(filePath: string): Promise<FileBlame> {
+  const response = await fetch('/api/file/blame', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ filePath, content }),
+    body: JSON.stringify({ filePath }),
   })
 
-  const data = await response.json() as WriteFileResponse | ErrorResponse
+  if (!response.ok) {
+    throw await toFileApiError(response, 'Failed to load blame')
+  }
+
+  const { blame } = await response.json() as BlameResponse
+  for (const commit of Object.values(blame.commits)) {
+    commit.date = new Date(commit.date)
+  }
+  return blame
+}
+
+// Save content, returning the new version. With a baseVersion the server answers
+// VERSION_CONFLICT if the file changed since then; without one it overwrites.
+export async function writeFile(filePath: string, content: string, baseVersion?: string): Promise<string> {
+  const response = await fetch('/api/file/write', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ filePath, content, baseVersion }),
+  })
 
   if (!response.ok) {
-    throw new Error((data as ErrorResponse).error || 'Failed to write file')
+    throw await toFileApiError(response, 'Failed to write file')
   }
+
+  const data = await response.json() as WriteFileResponse
+  return data.version
 }
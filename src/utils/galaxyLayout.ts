@@ -0,0 +1,186 @@
+// Galaxy layout: every folder becomes a solar system, placed by a layout
+// strategy (layoutStrategies.ts) and, for the spiral, settled by the force
+// simulation. The work happens in a worker (galaxyLayout.worker.ts); this module
+// holds what both sides share. Everything is seeded from folder paths, so the
+// same tree always gets the same galaxy.
+
+import type { FolderNode, LayoutLink, LayoutNode } from '../types'
+import { PERFORMANCE } from '../config/performance'
+import { LAYOUT_STRATEGIES, type LayoutStrategyId, type SystemSkeleton } from './layoutStrategies'
+
+// Simulation id of the galaxy core, which every top-level system orbits
+const CORE_ID = '/'
+
+export interface GalaxySystem {
+  folder: FolderNode
+  depth: number // 0 for top-level folders
+  totalChildren: number
+  parentPath: string
+  parentIndex: number // Index of the parent folder's system, -1 for top-level folders
+}
+
+// Sent to the worker. Positions are flat [x, y, z, x, y, z, ...] arrays, one entry per system.
+export interface LayoutRequest extends SystemSkeleton {
+  jobId: number
+  strategy: LayoutStrategyId
+  known: Float32Array // Current positions to start from, NaN where a system is new
+  pins: Float32Array // Pinned positions, NaN where a system isn't pinned
+  links: Int32Array // Pairs of coupled systems [a, b, a, b, ...], for coupled strategies
+  linkWeights: Float32Array // Strength of each pair, 0-1
+}
+
+// Where a layout starts from, and which systems stay put while it runs
+export interface LayoutPlan {
+  seed: Float32Array
+  fixed: Uint8Array // 1 for systems the simulation mustn't move
+}
+
+// Sent back from the worker: the seed first, then every few iterations
+export interface LayoutResponse {
+  jobId: number
+  positions: Float32Array
+  done: boolean
+}
+
+/**
+ * List a tree's folders as systems, parents before children and siblings in
+ * tree order, the order layout strategies place them in.
+ */
+export function collectSystems(root: FolderNode): GalaxySystem[] {
+  const systems: GalaxySystem[] = []
+
+  // Returns how many nodes sit anywhere below `folder`
+  function collect(folder: FolderNode, depth: number, parentIndex: number): number {
+    let descendants = folder.children.length
+
+    for (const child of folder.children) {
+      if (child.type !== 'folder') continue
+
+      const system: GalaxySystem = { folder: child, depth, totalChildren: 0, parentPath: folder.path, parentIndex }
+      systems.push(system)
+      system.totalChildren = collect(child, depth + 1, systems.length - 1)
+      descendants += system.totalChildren
+    }
+    return descendants
+  }
+
+  collect(root, 0, -1)
+  return systems
+}
+
+const isSet = (positions: Float32Array, i: number) => !Number.isNaN(positions[i * 3])
+
+function copyPosition(from: Float32Array, to: Float32Array, i: number) {
+  to[i * 3] = from[i * 3]
+  to[i * 3 + 1] = from[i * 3 + 1]
+  to[i * 3 + 2] = from[i * 3 + 2]
+}
+
+/**
+ * Decide where each system starts and what may move. Pins always win. Strategies
+ * that don't settle are used exactly as placed. For the others, current positions
+ * come next and new systems keep their placed offset from wherever their parent
+ * is; the first layout of a tree settles everything that isn't pinned, after
+ * that only systems near a new or re-pinned one move, so the rest of the galaxy
+ * stays where people remember it.
+ */
+export function planLayout(request: LayoutRequest): LayoutPlan {
+  const { parents, known, pins } = request
+  const strategy = LAYOUT_STRATEGIES[request.strategy]
+  const count = parents.length
+  const placed = strategy.place(request)
+
+  if (!strategy.settles) {
+    for (let i = 0; i < count; i++) {
+      if (isSet(pins, i)) copyPosition(pins, placed, i)
+    }
+    return { seed: placed, fixed: new Uint8Array(count).fill(1) }
+  }
+
+  const seed = new Float32Array(count * 3)
+  const fixed = new Uint8Array(count)
+  const disturbed: number[] = [] // Systems that arrive somewhere new
+  let hasKnown = false
+
+  // Parents come first, so a new subtree follows its parent's actual position
+  for (let i = 0; i < count; i++) {
+    const parent = parents[i]
+    hasKnown ||= isSet(known, i)
+
+    if (isSet(pins, i)) {
+      copyPosition(pins, seed, i)
+      fixed[i] = 1
+      const moved = !isSet(known, i) ||
+        pins[i * 3] !== known[i * 3] || pins[i * 3 + 1] !== known[i * 3 + 1] || pins[i * 3 + 2] !== known[i * 3 + 2]
+      if (moved) disturbed.push(i)
+    } else if (isSet(known, i)) {
+      copyPosition(known, seed, i)
+    } else {
+      for (let axis = 0; axis < 3; axis++) {
+        seed[i * 3 + axis] = parent < 0
+          ? placed[i * 3 + axis]
+          : seed[parent * 3 + axis] + placed[i * 3 + axis] - placed[parent * 3 + axis]
+      }
+      disturbed.push(i)
+    }
+  }
+  if (!hasKnown) return { seed, fixed }
+
+  const radiusSq = PERFORMANCE.layout.displaceRadius ** 2
+  for (let i = 0; i < count; i++) {
+    if (fixed[i] || !isSet(known, i)) continue
+
+    const isNearby = disturbed.some((j) => {
+      const dx = seed[i * 3] - seed[j * 3]
+      const dy = seed[i * 3 + 1] - seed[j * 3 + 1]
+      const dz = seed[i * 3 + 2] - seed[j * 3 + 2]
+      return dx * dx + dy * dy + dz * dz < radiusSq
+    })
+    if (!isNearby) fixed[i] = 1
+  }
+  return { seed, fixed }
+}
+
+// Simulation nodes for the systems plus the galaxy core, scaled down to the
+// distances the force simulation is tuned for
+export function toLayoutNodes(parents: Int32Array, { seed: positions, fixed }: LayoutPlan): LayoutNode[] {
+  const { scale } = PERFORMANCE.layout
+  const folder = (id: string): FolderNode => ({ id, name: id, path: id, type: 'folder', children: [] })
+
+  const nodes: LayoutNode[] = Array.from(parents, (parent, i) => ({
+    id: String(i),
+    x: positions[i * 3] / scale,
+    y: positions[i * 3 + 1] / scale,
+    z: positions[i * 3 + 2] / scale,
+    vx: 0,
+    vy: 0,
+    vz: 0,
+    node: folder(String(i)),
+    parentId: parent < 0 ? CORE_ID : String(parent),
+    pinned: fixed[i] === 1,
+  }))
+  nodes.push({ id: CORE_ID, x: 0, y: 0, z: 0, vx: 0, vy: 0, vz: 0, node: folder(CORE_ID), pinned: true })
+  return nodes
+}
+
+// Springs between coupled systems, in simulation node ids
+export function toLayoutLinks({ links, linkWeights }: LayoutRequest): LayoutLink[] {
+  return Array.from(linkWeights, (weight, i) => ({
+    source: String(links[i * 2]),
+    target: String(links[i * 2 + 1]),
+    weight,
+  }))
+}
+
+// World positions back from simulation nodes (without the core)
+export function fromLayoutNodes(nodes: LayoutNode[]): Float32Array {
+  const { scale } = PERFORMANCE.layout
+  const positions = new Float32Array((nodes.length - 1) * 3)
+
+  for (let i = 0; i < nodes.length - 1; i++) {
+    positions[i * 3] = nodes[i].x * scale
+    positions[i * 3 + 1] = nodes[i].y * scale
+    positions[i * 3 + 2] = nodes[i].z * scale
+  }
+  return positions
+}
@@ -0,0 +1,59 @@
+// Runs the galaxy layout off the main thread. Each request gets its seed
+// positions back straight away, then updates every few iterations as the forces
+// settle. A newer request cancels the one in progress at its next checkpoint.
+
+import { PERFORMANCE } from '../config/performance'
+import {
+  fromLayoutNodes,
+  planLayout,
+  toLayoutLinks,
+  toLayoutNodes,
+  type LayoutRequest,
+  type LayoutResponse,
+} from './galaxyLayout'
+import { simulateForces } from './layout'
+import { LAYOUT_STRATEGIES } from './layoutStrategies'
+
+let activeJob = 0
+
+function post(response: LayoutResponse) {
+  self.postMessage(response, { transfer: [response.positions.buffer] })
+}
+
+// Give queued requests a chance to arrive between batches of iterations
+function yieldToMessages(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve))
+}
+
+async function runLayout(request: LayoutRequest) {
+  const { jobId, parents } = request
+  const plan = planLayout(request)
+
+  // Nothing new to make room for
+  if (plan.fixed.every((isFixed) => isFixed === 1)) {
+    post({ jobId, positions: plan.seed, done: true })
+    return
+  }
+  post({ jobId, positions: plan.seed.slice(), done: false })
+
+  const { iterations, streamEvery } = PERFORMANCE.layout
+  let iteration = 0
+  let nodes = toLayoutNodes(parents, plan)
+  const { forces } = LAYOUT_STRATEGIES[request.strategy]
+
+  for (const step of simulateForces(nodes, { ...forces, maxIterations: iterations }, toLayoutLinks(request))) {
+    nodes = step
+    if (++iteration % streamEvery !== 0) continue
+
+    post({ jobId, positions: fromLayoutNodes(nodes), done: false })
+    await yieldToMessages()
+    if (activeJob !== jobId) return
+  }
+
+  post({ jobId, positions: fromLayoutNodes(nodes), done: true })
+}
+
+self.onmessage = (event: MessageEvent<LayoutRequest>) => {
+  activeJob = event.data.jobId
+  runLayout(event.data)
+}
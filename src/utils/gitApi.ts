@@ -0,0 +1,106 @@
+// Git API client for working-tree operations via the dev server
+
+import type { GitBranch, GitCommit, RepoInfo, WorkingFileStatus } from '../types'
+
+interface StatusResponse {
+  files: WorkingFileStatus[]
+}
+
+interface CommitResponse {
+  commit: GitCommit
+}
+
+interface BranchesResponse {
+  branches: GitBranch[]
+}
+
+interface CheckoutResponse {
+  info: RepoInfo
+}
+
+interface ErrorResponse {
+  error: string
+  code?: string
+}
+
+// Error from a git operation, carrying the server's code so callers can tell a
+// dirty-tree refusal (DIRTY_WORKTREE) apart from other failures
+export class GitApiError extends Error {
+  code: string
+
+  constructor(message: string, code: string) {
+    super(message)
+    this.name = 'GitApiError'
+    this.code = code
+  }
+}
+
+export interface CommitOptions {
+  message: string
+  authorName?: string
+  authorEmail?: string
+}
+
+async function postJson<T>(url: string, body: unknown, fallbackError: string): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+
+  const data = await response.json() as T | ErrorResponse
+
+  if (!response.ok) {
+    const error = data as ErrorResponse
+    throw new GitApiError(error.error || fallbackError, error.code ?? 'INTERNAL_ERROR')
+  }
+
+  return data as T
+}
+
+export async function fetchWorkingStatus(): Promise<WorkingFileStatus[]> {
+  const response = await fetch('/api/git/status')
+
+  const data = await response.json() as StatusResponse | ErrorResponse
+
+  if (!response.ok) {
+    throw new Error((data as ErrorResponse).error || 'Failed to load git status')
+  }
+
+  return (data as StatusResponse).files
+}
+
+// Both return the status after the index changed
+export async function stageFiles(paths: string[]): Promise<WorkingFileStatus[]> {
+  const data = await postJson<StatusResponse>('/api/git/stage', { paths }, 'Failed to stage files')
+  return data.files
+}
+
+export async function unstageFiles(paths: string[]): Promise<WorkingFileStatus[]> {
+  const data = await postJson<StatusResponse>('/api/git/unstage', { paths }, 'Failed to unstage files')
+  return data.files
+}
+
+export async function createCommit(options: CommitOptions): Promise<GitCommit> {
+  const data = await postJson<CommitResponse>('/api/git/commit', options, 'Failed to commit')
+  return { ...data.commit, date: new Date(data.commit.date) }
+}
+
+// Local and remote branches, most recently committed first
+export async function fetchBranches(): Promise<GitBranch[]> {
+  const response = await fetch('/api/git/branches')
+
+  const data = await response.json() as BranchesResponse | ErrorResponse
+
+  if (!response.ok) {
+    throw new Error((data as ErrorResponse).error || 'Failed to load branches')
+  }
+
+  return (data as BranchesResponse).branches.map((branch) => ({ ...branch, date: new Date(branch.date) }))
+}
+
+// Resolves to the repo info after switching; rejects with DIRTY_WORKTREE if there are uncommitted changes
+export async function checkoutBranch(name: string): Promise<RepoInfo> {
+  const data = await postJson<CheckoutResponse>('/api/git/checkout', { branch: name }, 'Failed to switch branches')
+  return data.info
+}
@@ -197,12 +197,19 @@ export function createDemoCommits(): GitCommit[] {
   ]
 }
 
-export function getRepoInfo(): RepoInfo {
+// Demo repo info, used when the dev server API isn't available
+export function createDemoRepoInfo(): RepoInfo {
   return {
     name: 'gitlaxy',
     path: '/Users/willb/Github/gitlaxy',
     branch: 'main',
     remoteUrl: 'https://github.com/user/gitlaxy',
+    headCommit: 'a1b2c3d4e5f6g7h8i9j0k1l2m3n4o5p6q7r8s9t0',
+    upstream: 'origin/main',
+    ahead: 0,
+    behind: 0,
+    remotes: [{ name: 'origin', url: 'https://github.com/user/gitlaxy' }],
+    isDirty: false,
   }
 }
 
@@ -212,6 +219,67 @@ export function flattenTree(node: RepoNode): RepoNode[] {
   return [node, ...node.children.flatMap(flattenTree)]
 }
 
+// Return a copy of the tree with the folder at `path` swapped for `replacement`
+export function replaceFolder(root: FolderNode, path: string, replacement: FolderNode): FolderNode {
+  if (root.path === path) return replacement
+  if (!path.startsWith(root.path === '/' ? '/' : root.path + '/')) return root
+
+  return {
+    ...root,
+    children: root.children.map((child) =>
+      child.type === 'folder' ? replaceFolder(child, path, replacement) : child
+    ),
+  }
+}
+
+// Find the node at `path`, if it's in the tree
+export function findNode(root: FolderNode, path: string): RepoNode | null {
+  if (root.path === path) return root
+  for (const child of root.children) {
+    if (child.path === path) return child
+    if (child.type === 'folder' && path.startsWith(child.path + '/')) {
+      return findNode(child, path)
+    }
+  }
+  return null
+}
+
+// Return a copy of the tree with `update` applied to the folder at `folderPath`.
+// Untouched branches keep their identity so React can skip them.
+function updateFolder(
+  root: FolderNode,
+  folderPath: string,
+  update: (folder: FolderNode) => FolderNode
+): FolderNode {
+  if (root.path === folderPath) return update(root)
+  if (!folderPath.startsWith(root.path === '/' ? '/' : root.path + '/')) return root
+
+  return {
+    ...root,
+    children: root.children.map((child) =>
+      child.type === 'folder' ? updateFolder(child, folderPath, update) : child
+    ),
+  }
+}
+
+// Insert or replace a node under its parent folder, keeping children sorted by name
+export function upsertNode(root: FolderNode, node: RepoNode): FolderNode {
+  if (node.path === root.path && node.type === 'folder') return node
+
+  return updateFolder(root, getParentPath(node.path), (parent) => ({
+    ...parent,
+    children: [...parent.children.filter((child) => child.path !== node.path), node]
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  }))
+}
+
+export function removeNode(root: FolderNode, path: string): FolderNode {
+  return updateFolder(root, getParentPath(path), (parent) => ({
+    ...parent,
+    children: parent.children.filter((child) => child.path !== path),
+  }))
+}
+
 // Get parent folder path
 export function getParentPath(path: string): string {
   const parts = path.split('/').filter(Boolean)
@@ -0,0 +1,147 @@
+// Tree helpers for looking back in time: estimating the repo tree at earlier
+// commits when the tree-at-revision API isn't available, and keeping removed
+// nodes around while they animate out. The estimate walks each commit's file list
+// backwards (or forwards) from the HEAD tree, so old file sizes are approximate.
+
+import type { FileNode, FolderNode, GitCommit, RepoNode } from '../types'
+import { findNode, getParentPath, removeNode, upsertNode } from './gitParser'
+
+// Rough bytes per changed line, for sizing files that no longer exist at HEAD
+const ESTIMATED_LINE_BYTES = 40
+
+export type HistoryDirection = 'forward' | 'backward'
+
+function createFile(path: string, size: number, lastModified: Date): FileNode {
+  const name = path.split('/').pop() || path
+  return {
+    id: path,
+    name,
+    path,
+    type: 'file',
+    extension: name.includes('.') ? name.split('.').pop() || '' : '',
+    size,
+    lastModified,
+  }
+}
+
+// Insert a file, creating any missing parent folders. Files under folders the
+// galaxy hasn't loaded (collapsed or ignored) are left out.
+function addFile(root: FolderNode, file: FileNode): FolderNode {
+  const parts = getParentPath(file.path).split('/').filter(Boolean)
+
+  let folderPath = ''
+  for (const part of parts) {
+    folderPath += '/' + part
+    const existing = findNode(root, folderPath)
+    if (existing?.type === 'file') return root
+    if (existing?.collapsed || existing?.ignored) return root
+    if (!existing) {
+      root = upsertNode(root, { id: folderPath, name: part, path: folderPath, type: 'folder', children: [] })
+    }
+  }
+
+  return upsertNode(root, file)
+}
+
+// Remove a node, then any folders it leaves empty
+function deleteNode(root: FolderNode, path: string): FolderNode {
+  if (!findNode(root, path)) return root
+  root = removeNode(root, path)
+
+  let parentPath = getParentPath(path)
+  while (parentPath !== '/') {
+    const parent = findNode(root, parentPath)
+    if (parent?.type !== 'folder' || parent.children.length > 0) break
+    root = removeNode(root, parentPath)
+    parentPath = getParentPath(parentPath)
+  }
+  return root
+}
+
+// The file as it should appear once it exists again, sized from HEAD if possible
+function reviveFile(path: string, lines: number, date: Date, headRoot: FolderNode | null): FileNode {
+  const headNode = headRoot ? findNode(headRoot, path) : null
+  if (headNode?.type === 'file') return { ...headNode, lastModified: date }
+  return createFile(path, Math.max(lines, 1) * ESTIMATED_LINE_BYTES, date)
+}
+
+/**
+ * Apply one commit's file changes to a tree, or undo them.
+ *
+ * @param root - Tree as of the commit's parent (forward) or the commit itself (backward)
+ * @param commit - Commit whose changes to replay
+ * @param direction - `forward` replays the commit, `backward` undoes it
+ * @param headRoot - Tree at HEAD, used to size files that reappear
+ */
+export function applyCommit(
+  root: FolderNode,
+  commit: GitCommit,
+  direction: HistoryDirection,
+  headRoot: FolderNode | null
+): FolderNode {
+  for (const file of commit.files) {
+    const forward = direction === 'forward'
+
+    switch (file.status) {
+      case 'added':
+      case 'deleted': {
+        const exists = (file.status === 'added') === forward
+        root = exists
+          ? addFile(root, reviveFile(file.path, forward ? file.additions : file.deletions, commit.date, headRoot))
+          : deleteNode(root, file.path)
+        break
+      }
+      case 'renamed': {
+        const from = forward ? file.oldPath : file.path
+        const to = forward ? file.path : file.oldPath
+        if (!from || !to) break
+        const moved = findNode(root, from)
+        root = deleteNode(root, from)
+        root = addFile(root, moved?.type === 'file'
+          ? { ...moved, id: to, path: to, name: to.split('/').pop() || to }
+          : reviveFile(to, file.additions, commit.date, headRoot))
+        break
+      }
+      case 'modified': {
+        const node = findNode(root, file.path)
+        if (node?.type === 'file') {
+          // Grow or shrink by the net line change, undoing it when going back in time
+          const delta = (file.additions - file.deletions) * ESTIMATED_LINE_BYTES * (forward ? 1 : -1)
+          root = upsertNode(root, {
+            ...node,
+            size: Math.max(node.size + delta, 0),
+            lastModified: commit.date,
+          })
+        }
+        break
+      }
+    }
+  }
+  return root
+}
+
+/**
+ * Put nodes that just disappeared back into a tree, so they can play their
+ * exit animation before being dropped for good.
+ *
+ * @param root - Tree to add the nodes to
+ * @param previous - Tree the nodes were taken from
+ * @param paths - Paths of the removed nodes
+ */
+export function withGhosts(root: FolderNode, previous: FolderNode, paths: string[]): FolderNode {
+  // Shallowest first, so a re-added folder brings its files along
+  const sorted = [...paths].sort((a, b) => a.length - b.length)
+  for (const path of sorted) {
+    if (findNode(root, path)) continue
+
+    // A node whose folder is gone too comes back with the highest missing ancestor
+    let ghostPath = path
+    for (let parent = getParentPath(path); parent !== '/' && !findNode(root, parent); parent = getParentPath(parent)) {
+      ghostPath = parent
+    }
+
+    const node: RepoNode | null = findNode(previous, ghostPath)
+    if (node) root = upsertNode(root, node)
+  }
+  return root
+}
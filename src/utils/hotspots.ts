@@ -0,0 +1,111 @@
+// Hotspots: files that keep changing a lot and are big, scored by churn
+// (commits × lines changed within a time window) times size in bytes
+
+import * as THREE from 'three'
+import type { FileNode, FolderNode, GitCommit } from '../types'
+import { PERFORMANCE } from '../config/performance'
+import { flattenTree, getParentPath } from './gitParser'
+
+export type HotspotWindowId = 'week' | 'month' | 'quarter' | 'year' | 'all'
+
+export const HOTSPOT_WINDOWS: Record<HotspotWindowId, { label: string; days: number | null }> = {
+  week: { label: 'Last week', days: 7 },
+  month: { label: 'Last month', days: 30 },
+  quarter: { label: 'Last 3 months', days: 91 },
+  year: { label: 'Last year', days: 365 },
+  all: { label: 'All loaded history', days: null },
+}
+
+export interface Hotspot {
+  file: FileNode
+  commits: number // Commits touching the file within the window
+  linesChanged: number // Additions plus deletions within the window
+  score: number
+  heat: number // 0 for the coolest scored file, 1 for the hottest
+}
+
+export interface Hotspots {
+  byPath: Record<string, Hotspot> // Files with any churn in the window
+  folderHeat: Record<string, number> // Heat of the files directly in each folder, 0-1
+  ranked: Hotspot[] // Hottest first
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Start of a window, counted back from the newest commit so a repository that
+ * has been quiet for a while still shows where its work went. Null for all history.
+ */
+export function windowStart(commits: GitCommit[], window: HotspotWindowId): Date | null {
+  const { days } = HOTSPOT_WINDOWS[window]
+  if (days === null || commits.length === 0) return null
+  return new Date(commits[0].date.getTime() - days * DAY_MS)
+}
+
+// Log scale from the smallest non-zero score to the largest, so a few huge
+// files don't leave everything else looking cold
+function toHeat(score: number, min: number, max: number): number {
+  if (max <= min) return 1
+  return (Math.log(score) - Math.log(min)) / (Math.log(max) - Math.log(min))
+}
+
+/**
+ * Score every file in the tree by its churn in the window times its size.
+ * Commits are newest first, as loaded; renames are followed so a file's older
+ * history counts under its current path. Files no longer in the tree are skipped.
+ */
+export function computeHotspots(commits: GitCommit[], root: FolderNode, window: HotspotWindowId): Hotspots {
+  const files = new Map<string, FileNode>()
+  for (const node of flattenTree(root)) {
+    if (node.type === 'file') files.set(node.path, node)
+  }
+
+  const start = windowStart(commits, window)
+  const renamedTo = new Map<string, string>() // Older path -> current path
+  const churn = new Map<string, { commits: number; linesChanged: number }>()
+
+  for (const commit of commits) {
+    if (start && commit.date < start) break
+    for (const change of commit.files) {
+      const path = renamedTo.get(change.path) ?? change.path
+      if (change.oldPath) renamedTo.set(change.oldPath, path)
+      if (!files.has(path)) continue
+
+      const entry = churn.get(path) ?? { commits: 0, linesChanged: 0 }
+      entry.commits += 1
+      entry.linesChanged += change.additions + change.deletions
+      churn.set(path, entry)
+    }
+  }
+
+  const scored: Hotspot[] = []
+  for (const [path, { commits: count, linesChanged }] of churn) {
+    const file = files.get(path)!
+    const score = count * linesChanged * file.size
+    if (score > 0) scored.push({ file, commits: count, linesChanged, score, heat: 0 })
+  }
+  scored.sort((a, b) => b.score - a.score)
+
+  const byPath: Record<string, Hotspot> = {}
+  const folderScores = new Map<string, number>()
+  for (const hotspot of scored) {
+    hotspot.heat = toHeat(hotspot.score, scored[scored.length - 1].score, scored[0].score)
+    byPath[hotspot.file.path] = hotspot
+
+    const folder = getParentPath(hotspot.file.path)
+    folderScores.set(folder, (folderScores.get(folder) ?? 0) + hotspot.score)
+  }
+
+  const folderHeat: Record<string, number> = {}
+  const totals = [...folderScores.values()]
+  const [min, max] = [Math.min(...totals), Math.max(...totals)]
+  for (const [folder, score] of folderScores) folderHeat[folder] = toHeat(score, min, max)
+
+  return { byPath, folderHeat, ranked: scored.slice(0, PERFORMANCE.hotspots.listed) }
+}
+
+// Glow color for a heat, cool to hot
+export function heatColor(heat: number): THREE.Color {
+  const [cool, hot] = PERFORMANCE.hotspots.hueRange
+  return new THREE.Color().setHSL(cool + (hot - cool) * heat, 0.9, 0.55)
+}
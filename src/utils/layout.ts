@@ -1,14 +1,22 @@
 // Force-directed 3D layout algorithm for repository visualization
-import type { RepoNode, FolderNode, LayoutNode } from '../types'
+import * as THREE from 'three'
+import type { FolderNode, LayoutLink, LayoutNode } from '../types'
 import { flattenTree, getPathDepth, getParentPath } from './gitParser'
+import { Octree, type OctreeObject } from './octree'
+import { createSeededRandom, hashString, RANDOM_SEEDS } from './random'
 
-interface ForceLayoutOptions {
+export interface ForceLayoutOptions {
   // Force parameters
   repulsionStrength: number
   attractionStrength: number
+  linkStrength: number // Pull of extra links at full weight
+  linkDistance: number // Distance linked nodes settle at
   centeringForce: number
   damping: number
 
+  // Barnes–Hut opening angle: higher is faster but coarser, 0 is exact O(n²)
+  theta: number
+
   // Layout parameters
   initialSpread: number
   layerSpacing: number
@@ -18,39 +26,36 @@ interface ForceLayoutOptions {
 const DEFAULT_OPTIONS: ForceLayoutOptions = {
   repulsionStrength: 15000,    // Much stronger repulsion
   attractionStrength: 0.015,   // Gentler attraction
+  linkStrength: 0.03,
+  linkDistance: 150,
   centeringForce: 0.002,       // Weak centering
   damping: 0.8,
+  theta: 0.8,
   initialSpread: 200,          // MUCH larger spread for celestial distances
   layerSpacing: 100,           // MUCH larger layer spacing
   maxIterations: 250,
 }
 
-// Initialize layout nodes from repo tree
+// Octree cell capacity and depth for repulsion; the depth cap keeps many nodes
+// stacked on one spot from splitting forever
+const OCTREE_MAX_OBJECTS = 8
+const OCTREE_MAX_DEPTH = 16
+
+// Initialize layout nodes from repo tree. Angles and jitter are seeded from each
+// node's path, so the same tree always starts out the same and adding a node
+// doesn't move its siblings.
 export function initializeLayoutNodes(root: FolderNode): LayoutNode[] {
   const allNodes = flattenTree(root)
   const layoutNodes: LayoutNode[] = []
 
-  // Group nodes by parent for initial positioning
-  const parentGroups = new Map<string, RepoNode[]>()
-
-  for (const node of allNodes) {
-    const parentPath = getParentPath(node.path)
-    if (!parentGroups.has(parentPath)) {
-      parentGroups.set(parentPath, [])
-    }
-    parentGroups.get(parentPath)!.push(node)
-  }
-
   // Position nodes in a hierarchical spiral galaxy pattern
   for (const node of allNodes) {
     const depth = getPathDepth(node.path)
     const parentPath = getParentPath(node.path)
-    const siblings = parentGroups.get(parentPath) || []
-    const siblingIndex = siblings.indexOf(node)
-    const siblingCount = siblings.length
+    const random = createSeededRandom(hashString(node.path), RANDOM_SEEDS.layout)
 
     // Galaxy spiral arm positioning
-    const armAngle = (siblingIndex / Math.max(siblingCount, 1)) * Math.PI * 2
+    const armAngle = random(1) * Math.PI * 2
     const spiralOffset = depth * 0.3 // spiral out as depth increases
 
     // Base radius increases with depth - celestial distances
@@ -65,9 +70,9 @@ export function initializeLayoutNodes(root: FolderNode): LayoutNode[] {
 
     // Calculate position with larger jitter for natural look
     const jitter = 60
-    const x = spiralRadius * Math.sin(theta) * Math.cos(phi) + (Math.random() - 0.5) * jitter
-    const y = depth * DEFAULT_OPTIONS.layerSpacing + (Math.random() - 0.5) * jitter * 0.3
-    const z = spiralRadius * Math.sin(theta) * Math.sin(phi) + (Math.random() - 0.5) * jitter
+    const x = spiralRadius * Math.sin(theta) * Math.cos(phi) + (random(2) - 0.5) * jitter
+    const y = depth * DEFAULT_OPTIONS.layerSpacing + (random(3) - 0.5) * jitter * 0.3
+    const z = spiralRadius * Math.sin(theta) * Math.sin(phi) + (random(4) - 0.5) * jitter
 
     // Root node gets special parentId handling
     const effectiveParentId = node.path === '/' ? undefined : (parentPath === '/' ? '/' : parentPath)
@@ -88,15 +93,17 @@ export function initializeLayoutNodes(root: FolderNode): LayoutNode[] {
   return layoutNodes
 }
 
-// Calculate repulsion force between two nodes
-function calculateRepulsion(
-  node1: LayoutNode,
-  node2: LayoutNode,
+// Add the repulsion on a node from another node or a cluster's center of mass to
+// `force`. Accumulates in place: this runs hundreds of times per node per iteration.
+function addRepulsion(
+  force: { fx: number; fy: number; fz: number },
+  node: LayoutNode,
+  other: { x: number; y: number; z: number },
   strength: number
-): { fx: number; fy: number; fz: number } {
-  const dx = node1.x - node2.x
-  const dy = node1.y - node2.y
-  const dz = node1.z - node2.z
+) {
+  const dx = node.x - other.x
+  const dy = node.y - other.y
+  const dz = node.z - other.z
 
   const distSq = dx * dx + dy * dy + dz * dz
   const dist = Math.sqrt(distSq) || 1
@@ -104,13 +111,11 @@ function calculateRepulsion(
   // Inverse square repulsion with larger minimum distance
   const minDist = 50
   const effectiveDist = Math.max(dist, minDist)
-  const force = strength / (effectiveDist * effectiveDist)
+  const magnitude = strength / (effectiveDist * effectiveDist)
 
-  return {
-    fx: (dx / dist) * force,
-    fy: (dy / dist) * force,
-    fz: (dz / dist) * force,
-  }
+  force.fx += (dx / dist) * magnitude
+  force.fy += (dy / dist) * magnitude
+  force.fz += (dz / dist) * magnitude
 }
 
 // Calculate attraction force to parent with ideal distance
@@ -137,35 +142,82 @@ function calculateAttraction(
   }
 }
 
-// Run force simulation
-export function runForceSimulation(
+// Build an octree over the current node positions, cubic so cells stay evenly shaped
+function buildRepulsionTree(points: OctreeObject[]): Octree {
+  const bounds = new THREE.Box3()
+  for (const point of points) {
+    bounds.expandByPoint(point.position)
+  }
+
+  const center = bounds.getCenter(new THREE.Vector3())
+  const size = bounds.getSize(new THREE.Vector3())
+  const half = Math.max(size.x, size.y, size.z) / 2 + 1
+  bounds.min.set(center.x - half, center.y - half, center.z - half)
+  bounds.max.set(center.x + half, center.y + half, center.z + half)
+
+  const octree = new Octree(bounds, OCTREE_MAX_OBJECTS, OCTREE_MAX_DEPTH)
+  octree.insertAll(points)
+  octree.computeMass()
+  return octree
+}
+
+// Step the force simulation, yielding the nodes after every iteration so callers
+// can report progress or stop early. Repulsion uses a Barnes–Hut approximation,
+// so each iteration is O(n log n) rather than O(n²). `links` add springs
+// between nodes on top of the parent-child ones.
+export function* simulateForces(
   nodes: LayoutNode[],
-  options: Partial<ForceLayoutOptions> = {}
-): LayoutNode[] {
+  options: Partial<ForceLayoutOptions> = {},
+  links: LayoutLink[] = []
+): Generator<LayoutNode[], void, void> {
   const opts = { ...DEFAULT_OPTIONS, ...options }
 
   // Clone nodes for simulation
-  let currentNodes = nodes.map((n) => ({ ...n }))
+  const currentNodes = nodes.map((n) => ({ ...n }))
+  const nodeMap = new Map(currentNodes.map((n) => [n.id, n]))
+
+  // Each node's linked nodes, from both ends of every link
+  const linked = new Map<string, Array<{ other: LayoutNode; weight: number }>>()
+  for (const { source, target, weight } of links) {
+    const from = nodeMap.get(source)
+    const to = nodeMap.get(target)
+    if (!from || !to) continue
+    if (!linked.has(source)) linked.set(source, [])
+    if (!linked.has(target)) linked.set(target, [])
+    linked.get(source)!.push({ other: to, weight })
+    linked.get(target)!.push({ other: from, weight })
+  }
+
+  // Octree entries, one per node, repositioned every iteration
+  const points: OctreeObject[] = currentNodes.map((n) => ({
+    id: n.id,
+    position: new THREE.Vector3(n.x, n.y, n.z),
+    radius: 0,
+  }))
 
   for (let iteration = 0; iteration < opts.maxIterations; iteration++) {
+    for (let i = 0; i < currentNodes.length; i++) {
+      const node = currentNodes[i]
+      points[i].position.set(node.x, node.y, node.z)
+    }
+    const octree = buildRepulsionTree(points)
+
     // Apply forces
     for (let i = 0; i < currentNodes.length; i++) {
       const node = currentNodes[i]
-      let fx = 0, fy = 0, fz = 0
-
-      // Repulsion from all other nodes
-      for (let j = 0; j < currentNodes.length; j++) {
-        if (i !== j) {
-          const repulsion = calculateRepulsion(node, currentNodes[j], opts.repulsionStrength)
-          fx += repulsion.fx
-          fy += repulsion.fy
-          fz += repulsion.fz
-        }
-      }
+      const self = points[i]
+      if (node.pinned) continue
+
+      // Repulsion from nearby nodes and distant clusters
+      const repulsion = { fx: 0, fy: 0, fz: 0 }
+      octree.forEachMass(self.position, opts.theta, (center, mass, obj) => {
+        if (obj !== self) addRepulsion(repulsion, node, center, opts.repulsionStrength * mass)
+      })
+      let { fx, fy, fz } = repulsion
 
       // Attraction to parent with ideal distance
       if (node.parentId) {
-        const parent = currentNodes.find((n) => n.id === node.parentId)
+        const parent = nodeMap.get(node.parentId)
         if (parent) {
           // Folders want more distance, files can be closer
           const idealDist = node.node.type === 'folder' ? 180 : 120
@@ -176,6 +228,14 @@ export function runForceSimulation(
         }
       }
 
+      // Attraction along extra links
+      for (const { other, weight } of linked.get(node.id) ?? []) {
+        const attraction = calculateAttraction(node, other, opts.linkStrength * weight, opts.linkDistance)
+        fx += attraction.fx
+        fy += attraction.fy
+        fz += attraction.fz
+      }
+
       // Weak centering force on X and Z only
       fx -= node.x * opts.centeringForce
       fz -= node.z * opts.centeringForce
@@ -188,10 +248,12 @@ export function runForceSimulation(
 
     // Update positions
     for (const node of currentNodes) {
+      if (node.pinned) continue
       node.x += node.vx
       node.y += node.vy
       node.z += node.vz
     }
+    yield currentNodes
 
     // Check for convergence
     const totalVelocity = currentNodes.reduce(
@@ -200,8 +262,19 @@ export function runForceSimulation(
     )
     if (totalVelocity < 1) break
   }
+}
 
-  return currentNodes
+// Run force simulation to completion
+export function runForceSimulation(
+  nodes: LayoutNode[],
+  options: Partial<ForceLayoutOptions> = {},
+  links: LayoutLink[] = []
+): LayoutNode[] {
+  let result = nodes
+  for (const step of simulateForces(nodes, options, links)) {
+    result = step
+  }
+  return result
 }
 
 // Get connections for rendering lines between parents and children
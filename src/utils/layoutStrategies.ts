@@ -0,0 +1,221 @@
+// Ways of arranging solar systems in the galaxy. Each strategy places every
+// system from the folder hierarchy alone; the spiral and co-change layouts are
+// then settled by the force simulation, the others are used as placed.
+// Strategies run in the layout worker, so they work on flat arrays rather than
+// the tree itself.
+
+import type { ForceLayoutOptions } from './layout'
+import { createSeededRandom, RANDOM_SEEDS } from './random'
+
+// One entry per system, parents before children and siblings in tree order
+export interface SystemSkeleton {
+  parents: Int32Array // Index of each system's parent, -1 for top-level folders
+  hashes: Uint32Array // Hash of each system's folder path
+  sizes: Uint32Array // Nodes anywhere below each system
+}
+
+export type LayoutStrategyId = 'spiral' | 'coupling' | 'radial' | 'cone' | 'shells'
+
+export interface LayoutStrategy {
+  label: string
+  settles: boolean // Refined by the force simulation after placing
+  coupled?: boolean // Folders that change together pull on each other while settling
+  forces?: Partial<ForceLayoutOptions> // Overrides for the force simulation
+  // World positions as a flat [x, y, z, x, y, z, ...] array
+  place: (systems: SystemSkeleton) => Float32Array
+}
+
+// Spiral arm spacing
+const BASE_SPACING = 3000
+const DEPTH_SPACING = 2000
+
+// Distance between rings of the radial tree
+const RING_SPACING = 6000
+
+// Cone tree: drop between levels, and the room a system without subfolders needs
+const CONE_LEVEL_DROP = 6000
+const CONE_FOOTPRINT = 2500
+
+// Distance between concentric shells
+const SHELL_SPACING = 6000
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5))
+
+// Place systems on spiral arms around their parent, with varied heights for a full
+// 3D spread. Angles and offsets come from each folder's path hash, so a new
+// folder doesn't move its siblings.
+export function spiralLayout({ parents, hashes }: SystemSkeleton): Float32Array {
+  const count = parents.length
+  const positions = new Float32Array(count * 3)
+  const depths = new Int32Array(count)
+  const angles = new Float64Array(count)
+  const radii = new Float64Array(count)
+
+  for (let i = 0; i < count; i++) {
+    const parent = parents[i]
+    const random = createSeededRandom(hashes[i], RANDOM_SEEDS.layout)
+
+    const depth = parent < 0 ? 0 : depths[parent] + 1
+    const parentAngle = parent < 0 ? 0 : angles[parent]
+    const parentRadius = parent < 0 ? 0 : radii[parent]
+
+    // Spiral arm positioning with more spread
+    const angle = parentAngle + random(1) * Math.PI * 2 + depth * 0.4
+    const radius = parentRadius + BASE_SPACING + depth * DEPTH_SPACING
+
+    // Deeper systems spread further above and below the galactic plane
+    const baseVertical = 3000 + depth * 1500
+
+    positions[i * 3] = Math.cos(angle) * radius + (random(2) - 0.5) * 480
+    positions[i * 3 + 1] = (random(3) * 2 - 1) * baseVertical
+    positions[i * 3 + 2] = Math.sin(angle) * radius + (random(4) - 0.5) * 480
+
+    depths[i] = depth
+    angles[i] = angle
+    radii[i] = radius
+  }
+
+  return positions
+}
+
+// How many systems without subfolders sit at or below each system
+function countLeaves(parents: Int32Array): Float64Array {
+  const leaves = new Float64Array(parents.length)
+
+  // Children come after their parent, so walking backwards finishes each subtree first
+  for (let i = parents.length - 1; i >= 0; i--) {
+    if (leaves[i] === 0) leaves[i] = 1
+    if (parents[i] >= 0) leaves[parents[i]] += leaves[i]
+  }
+  return leaves
+}
+
+// Sum of a value over the top-level systems
+function sumTopLevel(parents: Int32Array, values: Float64Array): number {
+  let total = 0
+  parents.forEach((parent, i) => {
+    if (parent < 0) total += values[i]
+  })
+  return total
+}
+
+// Rings around the core, one per depth. Each subtree gets a wedge of its parent's
+// wedge sized by how many leaves it holds, so branches never cross.
+function radialLayout({ parents, hashes }: SystemSkeleton): Float32Array {
+  const count = parents.length
+  const positions = new Float32Array(count * 3)
+  const leaves = countLeaves(parents)
+  const topLeaves = sumTopLevel(parents, leaves)
+  const depths = new Int32Array(count)
+  const wedgeStarts = new Float64Array(count)
+  const wedgeSizes = new Float64Array(count)
+  const nextAngle = new Map<number, number>() // Where each parent's next child wedge starts
+
+  for (let i = 0; i < count; i++) {
+    const parent = parents[i]
+    const random = createSeededRandom(hashes[i], RANDOM_SEEDS.layout)
+
+    const parentWedge = parent < 0 ? Math.PI * 2 : wedgeSizes[parent]
+    const parentLeaves = parent < 0 ? topLeaves : leaves[parent]
+    const start = nextAngle.get(parent) ?? (parent < 0 ? 0 : wedgeStarts[parent])
+    const size = parentWedge * (leaves[i] / parentLeaves)
+    nextAngle.set(parent, start + size)
+
+    const depth = parent < 0 ? 0 : depths[parent] + 1
+    const angle = start + size / 2
+    const radius = RING_SPACING * (depth + 1)
+
+    positions[i * 3] = Math.cos(angle) * radius
+    positions[i * 3 + 1] = (random(1) * 2 - 1) * RING_SPACING * 0.15 // Slight lift keeps labels apart
+    positions[i * 3 + 2] = Math.sin(angle) * radius
+
+    depths[i] = depth
+    wedgeStarts[i] = start
+    wedgeSizes[i] = size
+  }
+
+  return positions
+}
+
+// Each system's children hang on a circle below it, wide enough that the
+// children's own circles don't collide
+function coneLayout({ parents }: SystemSkeleton): Float32Array {
+  const count = parents.length
+  const positions = new Float32Array(count * 3)
+  const footprints = new Float64Array(count) // Radius each subtree needs
+  const childFootprints = new Float64Array(count) // Summed over each system's children
+
+  for (let i = count - 1; i >= 0; i--) {
+    // Circumference 2πr has to fit a diameter per child
+    footprints[i] = Math.max(CONE_FOOTPRINT, childFootprints[i] / Math.PI)
+    if (parents[i] >= 0) childFootprints[parents[i]] += footprints[i]
+  }
+  const topFootprints = sumTopLevel(parents, footprints)
+
+  const nextAngle = new Map<number, number>()
+  for (let i = 0; i < count; i++) {
+    const parent = parents[i]
+    const siblingFootprints = parent < 0 ? topFootprints : childFootprints[parent]
+    const ring = siblingFootprints / Math.PI
+
+    // Siblings share the circle in proportion to the room they need
+    const share = (footprints[i] / siblingFootprints) * Math.PI * 2
+    const start = nextAngle.get(parent) ?? 0
+    nextAngle.set(parent, start + share)
+    const angle = start + share / 2
+
+    const parentX = parent < 0 ? 0 : positions[parent * 3]
+    const parentY = parent < 0 ? CONE_LEVEL_DROP : positions[parent * 3 + 1]
+    const parentZ = parent < 0 ? 0 : positions[parent * 3 + 2]
+
+    positions[i * 3] = parentX + Math.cos(angle) * ring
+    positions[i * 3 + 1] = parentY - CONE_LEVEL_DROP
+    positions[i * 3 + 2] = parentZ + Math.sin(angle) * ring
+  }
+
+  return positions
+}
+
+// Concentric spheres, biggest systems in the middle. Shell k holds about as many
+// systems as its surface has room for, spread evenly over it.
+function shellsLayout({ parents, hashes, sizes }: SystemSkeleton): Float32Array {
+  const count = parents.length
+  const positions = new Float32Array(count * 3)
+  const order = Array.from(parents, (_, i) => i).sort((a, b) => sizes[b] - sizes[a] || hashes[a] - hashes[b])
+
+  let placed = 0
+  for (let shell = 0; placed < count; shell++) {
+    const capacity = shell === 0 ? 1 : Math.floor(4 * Math.PI * shell * shell)
+    const members = order.slice(placed, placed + capacity)
+    const radius = shell * SHELL_SPACING
+    const twist = shell * 2.4 // Keep neighbouring shells from lining up
+
+    members.forEach((system, j) => {
+      const y = members.length === 1 ? 0 : 1 - (2 * (j + 0.5)) / members.length
+      const ringRadius = Math.sqrt(1 - y * y)
+      const angle = j * GOLDEN_ANGLE + twist
+
+      positions[system * 3] = Math.cos(angle) * ringRadius * radius
+      positions[system * 3 + 1] = y * radius
+      positions[system * 3 + 2] = Math.sin(angle) * ringRadius * radius
+    })
+    placed += members.length
+  }
+
+  return positions
+}
+
+export const LAYOUT_STRATEGIES: Record<LayoutStrategyId, LayoutStrategy> = {
+  spiral: { label: '🌀 Spiral', settles: true, place: spiralLayout },
+  // Starts from the spiral, but with the tree's pull weakened so coupling wins
+  coupling: {
+    label: '🔗 Co-change',
+    settles: true,
+    coupled: true,
+    forces: { attractionStrength: 0.003 },
+    place: spiralLayout,
+  },
+  radial: { label: '🎯 Radial tree', settles: false, place: radialLayout },
+  cone: { label: '🔻 Cone tree', settles: false, place: coneLayout },
+  shells: { label: '🪐 Shells by size', settles: false, place: shellsLayout },
+}
@@ -0,0 +1,265 @@
+// Line-based diffing (Myers) and three-way merging for the editor
+
+// A run of lines replaced between two texts: old[oldStart, oldEnd) became new[newStart, newEnd)
+export interface LineChange {
+  oldStart: number
+  oldEnd: number
+  newStart: number
+  newEnd: number
+}
+
+export function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split('\n')
+}
+
+// Lines as small integers, so the edit graph compares numbers rather than strings
+function internLines(a: string[], b: string[]): [Int32Array, Int32Array] {
+  const ids = new Map<string, number>()
+  const intern = (line: string) => {
+    let id = ids.get(line)
+    if (id === undefined) {
+      id = ids.size
+      ids.set(line, id)
+    }
+    return id
+  }
+  return [Int32Array.from(a, intern), Int32Array.from(b, intern)]
+}
+
+/**
+ * Mark which lines of a and b are not part of the shortest edit script's common
+ * subsequence. This is Myers' linear-space variant: find the middle snake of the
+ * edit graph, then solve the halves on either side of it, so memory stays
+ * O(N + M) however different the texts are.
+ */
+function markEdits(lines: string[], other: string[], deleted: boolean[], inserted: boolean[]) {
+  if (lines.length + other.length === 0) return
+
+  const [a, b] = internLines(lines, other)
+  const offset = Math.ceil((a.length + b.length) / 2) + 1
+  const forward = new Int32Array(2 * offset + 1) // Furthest x per diagonal k = x - y, from the start
+  const backward = new Int32Array(2 * offset + 1) // Same, measured back from the end
+
+  // Middle snake of a[aLo, aHi) against b[bLo, bHi), as the points it runs between
+  function middleSnake(aLo: number, aHi: number, bLo: number, bHi: number): [number, number, number, number] {
+    const n = aHi - aLo
+    const m = bHi - bLo
+    const delta = n - m
+    const isOdd = (delta & 1) === 1
+    forward[offset + 1] = 0
+    backward[offset + 1] = 0
+
+    for (let d = 0; d <= Math.ceil((n + m) / 2); d++) {
+      for (let k = -d; k <= d; k += 2) {
+        let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+          ? forward[offset + k + 1]
+          : forward[offset + k - 1] + 1
+        const startX = x
+        while (x < n && x - k < m && a[aLo + x] === b[bLo + x - k]) x++
+        forward[offset + k] = x
+
+        // Paths overlap: the backward search already reached this diagonal from the end
+        const back = delta - k
+        if (isOdd && back >= -(d - 1) && back <= d - 1 && x + backward[offset + back] >= n) {
+          return [aLo + startX, bLo + startX - k, aLo + x, bLo + x - k]
+        }
+      }
+
+      for (let k = -d; k <= d; k += 2) {
+        let x = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+          ? backward[offset + k + 1]
+          : backward[offset + k - 1] + 1
+        const startX = x
+        while (x < n && x - k < m && a[aHi - 1 - x] === b[bHi - 1 - (x - k)]) x++
+        backward[offset + k] = x
+
+        const fore = delta - k
+        if (!isOdd && fore >= -d && fore <= d && x + forward[offset + fore] >= n) {
+          return [aHi - x, bHi - (x - k), aHi - startX, bHi - (startX - k)]
+        }
+      }
+    }
+    throw new Error('No middle snake') // Unreachable: the paths always meet by d = ceil((n + m) / 2)
+  }
+
+  function compare(aLo: number, aHi: number, bLo: number, bHi: number) {
+    while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+      aLo++
+      bLo++
+    }
+    while (aLo < aHi && bLo < bHi && a[aHi - 1] === b[bHi - 1]) {
+      aHi--
+      bHi--
+    }
+
+    if (aLo === aHi) {
+      inserted.fill(true, bLo, bHi)
+    } else if (bLo === bHi) {
+      deleted.fill(true, aLo, aHi)
+    } else {
+      // With the common ends stripped and both sides non-empty, the edit distance
+      // is at least 2, so both halves are strictly smaller problems
+      const [x, y, u, v] = middleSnake(aLo, aHi, bLo, bHi)
+      compare(aLo, x, bLo, y)
+      compare(u, aHi, v, bHi)
+    }
+  }
+
+  compare(0, a.length, 0, b.length)
+}
+
+// Minimal set of changed line ranges turning a into b
+export function diffLines(a: string[], b: string[]): LineChange[] {
+  // Common prefix and suffix are cheap to strip and keep the edit graph small
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+  let suffix = 0
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++
+
+  const midA = a.slice(prefix, a.length - suffix)
+  const midB = b.slice(prefix, b.length - suffix)
+  const deleted = new Array<boolean>(midA.length).fill(false)
+  const inserted = new Array<boolean>(midB.length).fill(false)
+  markEdits(midA, midB, deleted, inserted)
+
+  const changes: LineChange[] = []
+  let i = 0
+  let j = 0
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && !deleted[i] && !inserted[j]) {
+      i++
+      j++
+      continue
+    }
+    const change = { oldStart: i + prefix, oldEnd: 0, newStart: j + prefix, newEnd: 0 }
+    while (i < midA.length && deleted[i]) i++
+    while (j < midB.length && inserted[j]) j++
+    change.oldEnd = i + prefix
+    change.newEnd = j + prefix
+    changes.push(change)
+  }
+  return changes
+}
+
+// Conflict markers, as git writes them
+export const CONFLICT_START = '<<<<<<< yours'
+export const CONFLICT_BASE = '||||||| original'
+export const CONFLICT_SEPARATOR = '======='
+export const CONFLICT_END = '>>>>>>> on disk'
+
+export interface MergeResult {
+  text: string
+  conflicts: number
+}
+
+// Lines a side holds in place of base[start, end), given the side's changes touching that range
+function sideLines(side: string[], base: string[], changes: LineChange[], start: number, end: number): string[] {
+  if (changes.length === 0) return base.slice(start, end)
+  const first = changes[0]
+  const last = changes[changes.length - 1]
+  return side.slice(first.newStart - (first.oldStart - start), last.newEnd + (end - last.oldEnd))
+}
+
+// diff3-style merge: edits from only one side are taken as-is, overlapping edits
+// become conflict blocks showing yours, the original and the disk version
+export function mergeThreeWay(baseText: string, oursText: string, theirsText: string): MergeResult {
+  const base = splitLines(baseText)
+  const ours = splitLines(oursText)
+  const theirs = splitLines(theirsText)
+  const oursChanges = diffLines(base, ours)
+  const theirsChanges = diffLines(base, theirs)
+
+  const output: string[] = []
+  let conflicts = 0
+  let basePos = 0
+  let i = 0
+  let j = 0
+
+  while (i < oursChanges.length || j < theirsChanges.length) {
+    // Start a region at the earliest change, then absorb everything overlapping it
+    const takeOurs = j >= theirsChanges.length ||
+      (i < oursChanges.length && oursChanges[i].oldStart <= theirsChanges[j].oldStart)
+    const first = takeOurs ? oursChanges[i] : theirsChanges[j]
+    const start = first.oldStart
+    let end = first.oldEnd
+    const oursRegion: LineChange[] = []
+    const theirsRegion: LineChange[] = []
+
+    for (;;) {
+      if (i < oursChanges.length && oursChanges[i].oldStart <= end) {
+        end = Math.max(end, oursChanges[i].oldEnd)
+        oursRegion.push(oursChanges[i++])
+      } else if (j < theirsChanges.length && theirsChanges[j].oldStart <= end) {
+        end = Math.max(end, theirsChanges[j].oldEnd)
+        theirsRegion.push(theirsChanges[j++])
+      } else {
+        break
+      }
+    }
+
+    output.push(...base.slice(basePos, start))
+    const oursLines = sideLines(ours, base, oursRegion, start, end)
+    const theirsLines = sideLines(theirs, base, theirsRegion, start, end)
+
+    if (theirsRegion.length === 0) {
+      output.push(...oursLines)
+    } else if (oursRegion.length === 0 || oursLines.join('\n') === theirsLines.join('\n')) {
+      output.push(...theirsLines)
+    } else {
+      conflicts++
+      output.push(
+        CONFLICT_START,
+        ...oursLines,
+        CONFLICT_BASE,
+        ...base.slice(start, end),
+        CONFLICT_SEPARATOR,
+        ...theirsLines,
+        CONFLICT_END
+      )
+    }
+    basePos = end
+  }
+
+  output.push(...base.slice(basePos))
+  return { text: output.join('\n'), conflicts }
+}
+
+// Changes close enough to share context lines, shown and reverted together
+export interface DiffHunk {
+  changes: LineChange[]
+  oldStart: number
+  oldEnd: number
+  newStart: number
+  newEnd: number
+}
+
+// Unchanged lines shown around each hunk
+export const DIFF_CONTEXT_LINES = 3
+
+export function groupHunks(changes: LineChange[], context = DIFF_CONTEXT_LINES): DiffHunk[] {
+  const hunks: DiffHunk[] = []
+  for (const change of changes) {
+    const last = hunks[hunks.length - 1]
+    if (last && change.oldStart - last.oldEnd <= context * 2) {
+      last.changes.push(change)
+      last.oldEnd = change.oldEnd
+      last.newEnd = change.newEnd
+    } else {
+      hunks.push({ changes: [change], ...change })
+    }
+  }
+  return hunks
+}
+
+// Put a hunk's original lines back; lines between its changes are identical on both sides
+export function revertHunk(oldLines: string[], newLines: string[], hunk: DiffHunk): string[] {
+  return [
+    ...newLines.slice(0, hunk.newStart),
+    ...oldLines.slice(hunk.oldStart, hunk.oldEnd),
+    ...newLines.slice(hunk.newEnd),
+  ]
+}
@@ -0,0 +1,176 @@
+// Binding planet visuals to file metrics. Every metric has a fixed log-scale
+// domain, so a planet's look doesn't shift when other files change and the
+// legend can name real values at either end.
+
+import * as THREE from 'three'
+import type { FileMetrics, FileNode } from '../types'
+import { PERFORMANCE } from '../config/performance'
+
+export type MetricId = 'bytes' | 'lines' | 'commits' | 'age' | 'authors' | 'complexity'
+export type VisualChannel = 'radius' | 'hue' | 'glow' | 'rotation' | 'orbit'
+
+// The metric each channel shows, or null for the channel's unmapped look
+export type MetricMapping = Record<VisualChannel, MetricId | null>
+
+export const DEFAULT_METRIC_MAPPING: MetricMapping = {
+  radius: 'bytes',
+  hue: null,
+  glow: null,
+  rotation: null,
+  orbit: null,
+}
+
+interface Metric {
+  label: string
+  domain: readonly [number, number] // Values at the low and high end; anything beyond is clamped
+  fromServer: boolean // Needs FileMetrics from the dev server
+  format: (value: number) => string
+  read: (file: FileNode, metrics: FileMetrics | undefined) => number | null
+}
+
+interface Channel {
+  label: string
+  low: string // How the low end of a metric looks
+  high: string
+  unmapped: string // What the channel shows without a metric
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Ages count from page load, so planets don't drift as the session goes on
+const LOADED_AT = Date.now()
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1e6) return `${Math.round(bytes / 1e6)} MB`
+  if (bytes >= 1e3) return `${Math.round(bytes / 1e3)} KB`
+  return `${bytes} B`
+}
+
+function formatDays(days: number): string {
+  if (days >= 365) return `${Math.round(days / 365)} years ago`
+  return days === 1 ? 'a day ago' : `${days} days ago`
+}
+
+export const METRICS: Record<MetricId, Metric> = {
+  bytes: {
+    label: 'Bytes',
+    domain: [PERFORMANCE.files.sizing.minFileSize, 1e6],
+    fromServer: false,
+    format: formatBytes,
+    read: (file) => file.size,
+  },
+  lines: {
+    label: 'Lines of code',
+    domain: [10, 10000],
+    fromServer: true,
+    format: (lines) => `${lines} lines`,
+    read: (_file, metrics) => metrics?.lines ?? null,
+  },
+  commits: {
+    label: 'Commit count',
+    domain: [1, 500],
+    fromServer: true,
+    format: (commits) => `${commits} commits`,
+    read: (_file, metrics) => metrics?.commits ?? null,
+  },
+  age: {
+    label: 'Last modified',
+    domain: [1, 3650],
+    fromServer: false,
+    format: formatDays,
+    read: (file) => (LOADED_AT - file.lastModified.getTime()) / DAY_MS,
+  },
+  authors: {
+    label: 'Authors',
+    domain: [1, 20],
+    fromServer: true,
+    format: (authors) => `${authors} authors`,
+    read: (_file, metrics) => metrics?.authors ?? null,
+  },
+  complexity: {
+    label: 'Complexity',
+    domain: [1, 500],
+    fromServer: true,
+    format: (complexity) => `${complexity} decision points`,
+    read: (_file, metrics) => metrics?.complexity ?? null,
+  },
+}
+
+export const CHANNELS: Record<VisualChannel, Channel> = {
+  radius: { label: 'Radius', low: 'small', high: 'large', unmapped: 'Uniform' },
+  hue: { label: 'Hue', low: 'blue', high: 'red', unmapped: 'By extension' },
+  glow: { label: 'Atmosphere glow', low: 'faint', high: 'bright', unmapped: 'Default' },
+  rotation: { label: 'Rotation speed', low: 'slow', high: 'fast', unmapped: 'Default' },
+  orbit: { label: 'Orbit distance', low: 'inner', high: 'outer', unmapped: 'File order' },
+}
+
+export interface PlanetEncoding {
+  size: number
+  color: THREE.Color | null // null keeps the extension color
+  glow: number // Atmosphere opacity, relative to the default
+  spin: number // Rotation speed, relative to the default
+}
+
+const lerp = ([from, to]: readonly [number, number], t: number) => from + (to - from) * t
+
+/**
+ * Where a file falls in a metric's domain, from 0 at the low end to 1 at the
+ * high end, on a log scale. Null when the metric hasn't been read for the file.
+ */
+export function normalizeMetric(
+  metric: MetricId,
+  file: FileNode,
+  metrics: FileMetrics | undefined
+): number | null {
+  const { domain: [low, high], read } = METRICS[metric]
+  const value = read(file, metrics)
+  if (value === null) return null
+
+  return Math.min((Math.log(Math.max(value, low)) - Math.log(low)) / (Math.log(high) - Math.log(low)), 1)
+}
+
+// Color for a normalized value, snapped to the steps the legend shows
+export function metricColor(t: number): THREE.Color {
+  const { hueSteps, hueRange } = PERFORMANCE.metricMapping
+  const step = Math.round(t * (hueSteps - 1)) / (hueSteps - 1)
+  return new THREE.Color().setHSL(lerp(hueRange, step), 0.7, 0.55)
+}
+
+// How a planet looks under a mapping. Missing values count as the low end.
+export function encodePlanet(
+  file: FileNode,
+  metrics: FileMetrics | undefined,
+  mapping: MetricMapping
+): PlanetEncoding {
+  const { sizing } = PERFORMANCE.files
+  const { glowRange, rotationRange } = PERFORMANCE.metricMapping
+  const valueFor = (channel: VisualChannel) => {
+    const metric = mapping[channel]
+    return metric ? normalizeMetric(metric, file, metrics) ?? 0 : null
+  }
+
+  const radius = valueFor('radius')
+  const hue = valueFor('hue')
+  const glow = valueFor('glow')
+  const rotation = valueFor('rotation')
+
+  return {
+    // Spans log10 of 100 B to 1 MB, the range sizing by bytes has always covered
+    size: sizing.baseSize + (2 + 4 * (radius ?? 0.5)) * sizing.sizeMultiplier,
+    color: hue === null ? null : metricColor(hue),
+    glow: glow === null ? 1 : lerp(glowRange, glow),
+    spin: rotation === null ? 1 : lerp(rotationRange, rotation),
+  }
+}
+
+// Files in orbit order: by the orbit metric from the inside out, or as listed
+export function orderForOrbits(
+  files: FileNode[],
+  metric: MetricId | null,
+  metrics: Record<string, FileMetrics>
+): FileNode[] {
+  if (!metric) return files
+
+  const values = new Map(files.map((file) => [file, normalizeMetric(metric, file, metrics[file.path]) ?? 0]))
+  return [...files].sort((a, b) => values.get(a)! - values.get(b)!)
+}
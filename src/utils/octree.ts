@@ -3,12 +3,14 @@ import * as THREE from 'three'
 /**
  * Octree spatial partitioning for efficient collision detection
  * Reduces O(N²) collision checks to O(N log N) or better
+ * Also aggregates mass per cell for Barnes–Hut force approximation
  */
 
 export interface OctreeObject {
   position: THREE.Vector3
   radius: number
   id: string | number
+  mass?: number // Weight in Barnes–Hut sums (default: 1)
   data?: any
 }
 
@@ -19,12 +21,18 @@ class OctreeNode {
   maxObjects: number
   maxDepth: number
   depth: number
+  size: number // Longest edge, for the Barnes–Hut opening test
+
+  // Filled in by computeMass()
+  mass = 0
+  centerOfMass = new THREE.Vector3()
 
   constructor(bounds: THREE.Box3, maxObjects = 8, maxDepth = 8, depth = 0) {
     this.bounds = bounds
     this.maxObjects = maxObjects
     this.maxDepth = maxDepth
     this.depth = depth
+    this.size = Math.max(bounds.max.x - bounds.min.x, bounds.max.y - bounds.min.y, bounds.max.z - bounds.min.z)
   }
 
   // Split node into 8 octants
@@ -71,6 +79,9 @@ class OctreeNode {
     for (const child of this.children) {
       if (this.objectIntersectsBounds(obj, child.bounds)) {
         child.insert(obj)
+        // A point goes in one octant even when it sits on a shared face,
+        // so mass sums count it once
+        if (obj.radius === 0) break
       }
     }
     return true
@@ -78,16 +89,15 @@ class OctreeNode {
 
   // Check if object sphere intersects with bounds
   private objectIntersectsBounds(obj: OctreeObject, bounds: THREE.Box3): boolean {
-    // Find closest point in bounds to sphere center
-    const closestPoint = new THREE.Vector3(
-      Math.max(bounds.min.x, Math.min(obj.position.x, bounds.max.x)),
-      Math.max(bounds.min.y, Math.min(obj.position.y, bounds.max.y)),
-      Math.max(bounds.min.z, Math.min(obj.position.z, bounds.max.z))
-    )
+    // Distance from sphere center to the closest point in bounds, without
+    // allocating: this runs for every octant on every insert
+    const { position } = obj
+    const dx = Math.max(bounds.min.x, Math.min(position.x, bounds.max.x)) - position.x
+    const dy = Math.max(bounds.min.y, Math.min(position.y, bounds.max.y)) - position.y
+    const dz = Math.max(bounds.min.z, Math.min(position.z, bounds.max.z)) - position.z
 
     // Check if closest point is within sphere radius
-    const distSq = closestPoint.distanceToSquared(obj.position)
-    return distSq <= obj.radius * obj.radius
+    return dx * dx + dy * dy + dz * dz <= obj.radius * obj.radius
   }
 
   // Insert object into octree
@@ -171,6 +181,28 @@ class OctreeNode {
     return result
   }
 
+  // Sum masses bottom-up and place each cell's center of mass
+  computeMass() {
+    this.mass = 0
+    this.centerOfMass.set(0, 0, 0)
+
+    if (this.children) {
+      for (const child of this.children) {
+        child.computeMass()
+        if (child.mass === 0) continue
+        this.centerOfMass.addScaledVector(child.centerOfMass, child.mass)
+        this.mass += child.mass
+      }
+    }
+    for (const obj of this.objects) {
+      const mass = obj.mass ?? 1
+      this.centerOfMass.addScaledVector(obj.position, mass)
+      this.mass += mass
+    }
+
+    if (this.mass > 0) this.centerOfMass.divideScalar(this.mass)
+  }
+
   // Clear all objects from tree
   clear() {
     this.objects = []
@@ -222,6 +254,48 @@ export class Octree {
     this.insertAll(objects)
   }
 
+  /**
+   * Barnes–Hut traversal: objects near `point` are visited one by one, distant
+   * clusters as a single mass at their center. Meant for point objects (radius 0);
+   * call computeMass() after inserting.
+   *
+   * @param point - Where the combined effect is measured
+   * @param theta - Opening angle: a cell of size s at distance d counts as one mass
+   *   when s / d < theta. 0 visits every object individually
+   * @param visit - Called with each object or cluster's center and mass; `obj` is
+   *   null for clusters
+   */
+  forEachMass(
+    point: THREE.Vector3,
+    theta: number,
+    visit: (center: THREE.Vector3, mass: number, obj: OctreeObject | null) => void
+  ) {
+    const thetaSq = theta * theta
+    const stack: OctreeNode[] = [this.root]
+
+    while (stack.length > 0) {
+      const node = stack.pop()!
+      if (node.mass === 0) continue
+
+      // Far enough away (and not around the point itself): the whole cell acts as one mass.
+      // Compared squared to skip the square root on this hot path
+      if (node.size * node.size < thetaSq * point.distanceToSquared(node.centerOfMass) &&
+        !node.bounds.containsPoint(point)) {
+        visit(node.centerOfMass, node.mass, null)
+        continue
+      }
+
+      for (const obj of node.objects) {
+        visit(obj.position, obj.mass ?? 1, obj)
+      }
+      if (node.children) stack.push(...node.children)
+    }
+  }
+
+  computeMass() {
+    this.root.computeMass()
+  }
+
   // Efficient collision detection between all objects
   detectCollisions(): Array<[OctreeObject, OctreeObject]> {
     const collisions: Array<[OctreeObject, OctreeObject]> = []
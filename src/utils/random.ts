@@ -12,8 +12,25 @@ export const RANDOM_SEEDS = {
   cloudTexture: 7777,
   dustParticles: 1337,
   nebulaWisps: 9999,
+  layout: 4243,
 } as const
 
+/**
+ * Hashes a string (e.g. a file path) to a stable seed, so things derived from it
+ * come out the same every run and don't depend on what else exists.
+ *
+ * @param value - The string to hash
+ * @returns An unsigned 32-bit FNV-1a hash
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
 /**
  * Creates a seeded random number generator function.
  *
@@ -0,0 +1,263 @@
+// Repository API client for loading repo data via the dev server
+
+import type {
+  CommitFile,
+  FileMetrics,
+  FolderNode,
+  GitCommit,
+  ImportEdge,
+  PinnedSystems,
+  RepoChange,
+  RepoInfo,
+  RepoNode,
+} from '../types'
+
+interface RepoTreeResponse {
+  root: FolderNode
+}
+
+interface RepoInfoResponse {
+  info: RepoInfo
+}
+
+interface OpenRepoResponse {
+  path: string
+}
+
+export interface RecentRepos {
+  current: string
+  recent: string[]
+}
+
+interface FileMetricsResponse {
+  metrics: Record<string, FileMetrics>
+}
+
+interface ImportGraphResponse {
+  edges: ImportEdge[]
+}
+
+interface PinnedSystemsResponse {
+  pins: PinnedSystems
+}
+
+interface ExpandFolderResponse {
+  folder: FolderNode
+}
+
+export interface CommitPage {
+  commits: GitCommit[]
+  total: number
+  hasMore: boolean
+}
+
+// Every committed file at one revision
+export interface RevisionTree {
+  hash: string // Full commit hash the revision resolved to
+  tree: FolderNode
+}
+
+// Files changed between two revisions
+export interface RevisionDiff {
+  base: string // Full commit hashes the revisions resolved to
+  head: string
+  files: CommitFile[]
+}
+
+interface ErrorResponse {
+  error: string
+}
+
+// JSON turns Dates into strings, so walk the tree and restore them
+function reviveNode(node: RepoNode): RepoNode {
+  if (node.type === 'file') {
+    return { ...node, lastModified: new Date(node.lastModified) }
+  }
+  return { ...node, children: node.children.map(reviveNode) }
+}
+
+export async function fetchRepoTree(): Promise<FolderNode> {
+  const response = await fetch('/api/repo/tree')
+
+  const data = await response.json() as RepoTreeResponse | ErrorResponse
+
+  if (!response.ok) {
+    throw new Error((data as ErrorResponse).error || 'Failed to load repository tree')
+  }
+
+  return reviveNode((data as RepoTreeResponse).root) as FolderNode
+}
+
+export async function fetchRepoInfo(): Promise<RepoInfo> {
+  const response = await fetch('/api/repo/info')
+
+  const data = await response.json() as RepoInfoResponse | ErrorResponse
+
+  if (!response.ok) {
+    throw new Error((data as ErrorResponse).error || 'Failed to load repository info')
+  }
+
+  return (data as RepoInfoResponse).info
+}
+
+// Point the server at another repository on disk; resolves to its canonical path
+export async function openRepository(repoPath: string): Promise<string> {
+  const response = await fetch('/api/repo/open', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ repoPath }),
+  })
+
+  const data = await response.json() as OpenRepoResponse | ErrorResponse
+
+  if (!response.ok) {
+    throw new Error((data as ErrorResponse).error || 'Failed to open repository')
+  }
+
+  return (data as OpenRepoResponse).path
+}
+
+export async function fetchRecentRepos(): Promise<RecentRepos> {
+  const response = await fetch('/api/repo/recent')
+
+  const data = await response.json() as RecentRepos | ErrorResponse
+
+  if (!response.ok) {
+    throw new Error((data as ErrorResponse).error || 'Failed to load recent repositories')
+  }
+
+  return data as RecentRepos
+}
+
+export async function fetchPinnedSystems(): Promise<PinnedSystems> {
+  const response = await fetch('/api/repo/pins')
+
+  const data = await response.json() as PinnedSystemsResponse | ErrorResponse
+
+  if (!response.ok) {
+    throw new Error((data as ErrorResponse).error || 'Failed to load pinned systems')
+  }
+
+  return (data as PinnedSystemsResponse).pins
+}
+
+// Pin a solar system in place, or unpin it with a null position; resolves to every pin in the repo
+export async function savePinnedSystem(
+  path: string,
+  position: [number, number, number] | null
+): Promise<PinnedSystems> {
+  const response = await fetch('/api/repo/pin', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ path, position }),
+  })
+
+  const data = await response.json() as PinnedSystemsResponse | ErrorResponse
+
+  if (!response.ok) {
+    throw new Error((data as ErrorResponse).error || 'Failed to save pinned system')
+  }
+
+  return (data as PinnedSystemsResponse).pins
+}
+
+// Which files import which, across the whole repo
+export async function fetchImportGraph(): Promise<ImportEdge[]> {
+  const response = await fetch('/api/repo/imports')
+
+  const data = await response.json() as ImportGraphResponse | ErrorResponse
+
+  if (!response.ok) {
+    throw new Error((data as ErrorResponse).error || 'Failed to load import graph')
+  }
+
+  return (data as ImportGraphResponse).edges
+}
+
+// Line counts, complexity, commits and authors, keyed by file path
+export async function fetchFileMetrics(): Promise<Record<string, FileMetrics>> {
+  const response = await fetch('/api/repo/metrics')
+
+  const data = await response.json() as FileMetricsResponse | ErrorResponse
+
+  if (!response.ok) {
+    throw new Error((data as ErrorResponse).error || 'Failed to load file metrics')
+  }
+
+  return (data as FileMetricsResponse).metrics
+}
+
+// Fetch the contents of a collapsed placeholder folder
+export async function fetchExpandedFolder(folderPath: string): Promise<FolderNode> {
+  const params = new URLSearchParams({ path: folderPath })
+  const response = await fetch(`/api/repo/expand?${params}`)
+
+  const data = await response.json() as ExpandFolderResponse | ErrorResponse
+
+  if (!response.ok) {
+    throw new Error((data as ErrorResponse).error || 'Failed to expand folder')
+  }
+
+  return reviveNode((data as ExpandFolderResponse).folder) as FolderNode
+}
+
+// Fetch one page of commit history, newest first
+export async function fetchCommitPage(skip: number, limit: number): Promise<CommitPage> {
+  const params = new URLSearchParams({ skip: String(skip), limit: String(limit) })
+  const response = await fetch(`/api/git/log?${params}`)
+
+  const data = await response.json() as CommitPage | ErrorResponse
+
+  if (!response.ok) {
+    throw new Error((data as ErrorResponse).error || 'Failed to load commit history')
+  }
+
+  const page = data as CommitPage
+  return {
+    ...page,
+    commits: page.commits.map((commit) => ({ ...commit, date: new Date(commit.date) })),
+  }
+}
+
+// Fetch the tree as it was committed at a revision (hash, branch, tag or HEAD~n)
+export async function fetchTreeAtRevision(revision: string): Promise<RevisionTree> {
+  const params = new URLSearchParams({ rev: revision })
+  const response = await fetch(`/api/git/tree?${params}`)
+
+  const data = await response.json() as RevisionTree | ErrorResponse
+
+  if (!response.ok) {
+    throw new Error((data as ErrorResponse).error || `Failed to load the tree at ${revision}`)
+  }
+
+  const { hash, tree } = data as RevisionTree
+  return { hash, tree: reviveNode(tree) as FolderNode }
+}
+
+// Diff two revisions (hashes, branches, tags or HEAD~n)
+export async function fetchRevisionDiff(base: string, head: string): Promise<RevisionDiff> {
+  const params = new URLSearchParams({ base, head })
+  const response = await fetch(`/api/git/compare?${params}`)
+
+  const data = await response.json() as RevisionDiff | ErrorResponse
+
+  if (!response.ok) {
+    throw new Error((data as ErrorResponse).error || `Failed to compare ${base} with ${head}`)
+  }
+
+  return data as RevisionDiff
+}
+
+// Listen for file changes on disk. Returns a function that closes the stream.
+export function subscribeToRepoChanges(onChanges: (changes: RepoChange[]) => void): () => void {
+  const source = new EventSource('/api/repo/events')
+
+  source.onmessage = (event) => {
+    const { changes } = JSON.parse(event.data) as { changes: RepoChange[] }
+    onChanges(changes.map((change) =>
+      change.type === 'upsert' ? { ...change, node: reviveNode(change.node) } : change
+    ))
+  }
+
+  return () => source.close()
+}
@@ -0,0 +1,104 @@
+// Client-side cache of trees at past commits and of the diffs between them,
+// so stepping back and forth through history only fetches and compares once
+
+import type { FileNode, FolderNode } from '../types'
+import { flattenTree } from './gitParser'
+import { fetchTreeAtRevision } from './repoApi'
+
+// Least recently used entries are dropped past these sizes
+const MAX_SNAPSHOTS = 64
+const MAX_DIFFS = 256
+
+export interface TreeDiff {
+  added: string[] // Files and folders only in the newer tree
+  removed: string[] // Files and folders only in the older tree
+  modified: string[] // Files in both whose contents changed
+}
+
+const snapshots = new Map<string, Promise<FolderNode>>()
+const diffs = new Map<string, TreeDiff>()
+
+// Insert or refresh an entry, evicting the oldest past `limit`
+function remember<T>(cache: Map<string, T>, key: string, value: T, limit: number) {
+  cache.delete(key)
+  cache.set(key, value)
+  if (cache.size > limit) {
+    cache.delete(cache.keys().next().value!)
+  }
+}
+
+/**
+ * Load the tree committed at `hash`, from the cache when possible. Failed loads
+ * are forgotten so they can be retried.
+ */
+export function loadTreeSnapshot(hash: string): Promise<FolderNode> {
+  const pending = snapshots.get(hash) ?? fetchTreeAtRevision(hash).then(({ tree }) => tree)
+  remember(snapshots, hash, pending, MAX_SNAPSHOTS)
+
+  pending.catch(() => {
+    if (snapshots.get(hash) === pending) snapshots.delete(hash)
+  })
+  return pending
+}
+
+// Warm the cache for a commit we're likely to visit next
+export function prefetchTreeSnapshot(hash: string) {
+  loadTreeSnapshot(hash).catch(() => {})
+}
+
+// Forget everything, e.g. after switching repositories
+export function clearTreeSnapshots() {
+  snapshots.clear()
+  diffs.clear()
+}
+
+// Blob ids decide when both trees came from git. Against the live tree only sizes
+// compare fairly; between replayed or live trees the dates count too.
+function hasChanged(before: FileNode, after: FileNode): boolean {
+  if (before.blob && after.blob) return before.blob !== after.blob
+  if (before.blob || after.blob) return before.size !== after.size
+  return before.size !== after.size || before.lastModified.getTime() !== after.lastModified.getTime()
+}
+
+// Compare two trees path by path
+export function diffTrees(from: FolderNode, to: FolderNode): TreeDiff {
+  const fromNodes = new Map(flattenTree(from).map((node) => [node.path, node]))
+  const toNodes = new Map(flattenTree(to).map((node) => [node.path, node]))
+  const diff: TreeDiff = { added: [], removed: [], modified: [] }
+
+  for (const [path, node] of toNodes) {
+    const previous = fromNodes.get(path)
+    if (!previous || previous.type !== node.type) {
+      diff.added.push(path)
+    } else if (previous.type === 'file' && node.type === 'file' && hasChanged(previous, node)) {
+      diff.modified.push(path)
+    }
+  }
+  for (const [path, node] of fromNodes) {
+    const next = toNodes.get(path)
+    if (!next || next.type !== node.type) diff.removed.push(path)
+  }
+
+  return diff
+}
+
+/**
+ * What changed going from one snapshot to another. Each pair is compared once;
+ * the reverse direction reuses the same result with added and removed swapped.
+ *
+ * @param fromHash - Commit the `from` tree was read at
+ * @param toHash - Commit the `to` tree was read at
+ */
+export function diffTreeSnapshots(fromHash: string, from: FolderNode, toHash: string, to: FolderNode): TreeDiff {
+  const key = `${fromHash}..${toHash}`
+  const cached = diffs.get(key)
+  if (cached) return cached
+
+  const reverse = diffs.get(`${toHash}..${fromHash}`)
+  const diff = reverse
+    ? { added: reverse.removed, removed: reverse.added, modified: reverse.modified }
+    : diffTrees(from, to)
+
+  remember(diffs, key, diff, MAX_DIFFS)
+  return diff
+}
@@ -1,105 +1,488 @@
-import { defineConfig, type Plugin } from 'vite'
+import { defineConfig, type Connect, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import fs from 'fs/promises'
 import path from 'path'
+import { buildRepoTree, expandRepoFolder, loadTreeRules } from './server/repoTree'
+import { readCommitPage, readRevisionDiff } from './server/gitLog'
+import { readRepoInfo } from './server/repoInfo'
+import { subscribeToRepoChanges } from './server/repoWatcher'
+import { getRepoRoot, readRecentRepos, rememberStartupRepo, setRepoRoot } from './server/repoRoot'
+import { loadRepoConfig } from './server/repoConfig'
+import { isPinPosition, readPinnedSystems, savePinnedSystem } from './server/layoutPins'
+import { readImportGraph } from './server/importGraph'
+import { readFileMetrics } from './server/fileMetrics'
+import { computeFileVersion, readFileVersion } from './server/fileVersion'
+import { readFileAtRevision } from './server/gitRevision'
+import { readBlame } from './server/gitBlame'
+import { readTreeAtRevision, resolveCommit } from './server/gitTree'
+import { checkoutBranch, listBranches } from './server/gitBranches'
+import { commitStaged, readWorkingStatus, stagePaths, unstagePaths } from './server/gitWorkTree'
+import { isBinaryFile, isGitInternal, looksBinary, resolveLexicalRepoPath, resolveRepoPath } from './server/safePaths'
+import {
+  ApiError,
+  getQueryParams,
+  readJsonBody,
+  requireMethod,
+  sendApiError,
+  sendError,
+  sendJson,
+} from './server/http'
 
-// File API plugin for reading and writing files
-function fileApiPlugin(): Plugin {
+// Register API routes on both the dev server and `vite preview` (used by the CLI)
+function createApiPlugin(name: string, install: (middlewares: Connect.Server) => void): Plugin {
   return {
-    name: 'file-api',
+    name,
     configureServer(server) {
-      // Read file endpoint
-      server.middlewares.use('/api/file/read', async (req, res) => {
-        if (req.method !== 'POST') {
-          res.statusCode = 405
-          res.end(JSON.stringify({ error: 'Method not allowed' }))
-          return
+      install(server.middlewares)
+    },
+    configurePreviewServer(server) {
+      install(server.middlewares)
+    },
+  }
+}
+
+// JSON wrapping and escaping can make a body noticeably larger than the file it carries
+const JSON_BODY_OVERHEAD = 2
+
+// Small bodies for endpoints that only carry a path or a message
+const MAX_SMALL_BODY_BYTES = 64 * 1024
+
+// File API plugin for reading and writing files
+function fileApiPlugin(): Plugin {
+  return createApiPlugin('file-api', (middlewares) => {
+    // Read file endpoint
+    middlewares.use('/api/file/read', async (req, res) => {
+      if (!requireMethod(req, res, 'POST')) return
+
+      try {
+        const { filePath } = await readJsonBody<{ filePath: string }>(req, MAX_SMALL_BODY_BYTES)
+
+        // Paths like "/src/App.tsx" map to "<repo>/src/App.tsx"
+        const projectRoot = getRepoRoot()
+        const { absPath } = await resolveRepoPath(projectRoot, filePath)
+        const { maxReadBytes } = await loadRepoConfig(projectRoot)
+
+        const stats = await fs.stat(absPath)
+        if (stats.size > maxReadBytes) {
+          throw new ApiError(413, 'FILE_TOO_LARGE', `File is ${stats.size} bytes; the limit is ${maxReadBytes}`)
         }
 
-        let body = ''
-        req.on('data', chunk => { body += chunk })
-        req.on('end', async () => {
-          try {
-            const { filePath } = JSON.parse(body)
-
-            if (!filePath) {
-              res.statusCode = 400
-              res.end(JSON.stringify({ error: 'filePath is required' }))
-              return
-            }
-
-            // Resolve path relative to project root
-            // Paths like "/src/App.tsx" should map to "<project>/src/App.tsx"
-            const projectRoot = process.cwd()
-            const resolvedPath = filePath.startsWith('/')
-              ? path.join(projectRoot, filePath)
-              : path.resolve(filePath)
-
-            if (!resolvedPath.startsWith(projectRoot)) {
-              res.statusCode = 403
-              res.end(JSON.stringify({ error: 'Access denied: Cannot read files outside project' }))
-              return
-            }
-
-            const content = await fs.readFile(resolvedPath, 'utf-8')
-            res.setHeader('Content-Type', 'application/json')
-            res.end(JSON.stringify({ content, path: resolvedPath }))
-          } catch (err) {
-            const error = err as NodeJS.ErrnoException
-            res.statusCode = error.code === 'ENOENT' ? 404 : 500
-            res.end(JSON.stringify({ error: error.message }))
-          }
+        const buffer = await fs.readFile(absPath)
+        sendJson(res, {
+          content: buffer.toString('utf-8'),
+          path: absPath,
+          version: computeFileVersion(stats.mtimeMs, buffer),
         })
+      } catch (err) {
+        sendApiError(res, err)
+      }
+    })
+
+    // File content as of the last commit, for diffing against the editor buffer
+    middlewares.use('/api/file/head', async (req, res) => {
+      if (!requireMethod(req, res, 'POST')) return
+
+      try {
+        const { filePath } = await readJsonBody<{ filePath: string }>(req, MAX_SMALL_BODY_BYTES)
+
+        const projectRoot = getRepoRoot()
+        const { absPath, relativePath } = await resolveRepoPath(projectRoot, filePath)
+        const { maxReadBytes } = await loadRepoConfig(projectRoot)
+
+        const file = await readFileAtRevision(projectRoot, 'HEAD', relativePath, maxReadBytes)
+        sendJson(res, { ...file, path: absPath })
+      } catch (err) {
+        sendApiError(res, err)
+      }
+    })
+
+    // Per-line authorship for the editor's blame gutter
+    middlewares.use('/api/file/blame', async (req, res) => {
+      if (!requireMethod(req, res, 'POST')) return
+
+      try {
+        const { filePath } = await readJsonBody<{ filePath: string }>(req, MAX_SMALL_BODY_BYTES)
+
+        const projectRoot = getRepoRoot()
+        const { relativePath } = await resolveRepoPath(projectRoot, filePath)
+
+        const blame = await readBlame(projectRoot, relativePath)
+        sendJson(res, { blame })
+      } catch (err) {
+        sendApiError(res, err)
+      }
+    })
+
+    // Write file endpoint
+    middlewares.use('/api/file/write', async (req, res) => {
+      if (!requireMethod(req, res, 'POST')) return
+
+      try {
+        const projectRoot = getRepoRoot()
+        const { maxWriteBytes } = await loadRepoConfig(projectRoot)
+        const { filePath, content, baseVersion } = await readJsonBody<{
+          filePath: string
+          content: string
+          // Version the edit started from; omitted to overwrite unconditionally
+          baseVersion?: string | null
+        }>(
+          req,
+          maxWriteBytes * JSON_BODY_OVERHEAD + MAX_SMALL_BODY_BYTES
+        )
+
+        if (typeof content !== 'string') {
+          throw new ApiError(400, 'INVALID_REQUEST', 'filePath and content are required')
+        }
+
+        const { absPath, relativePath } = await resolveRepoPath(projectRoot, filePath)
+
+        if (isGitInternal(relativePath)) {
+          throw new ApiError(403, 'GIT_INTERNAL', 'Refusing to write inside .git')
+        }
+        if (Buffer.byteLength(content, 'utf-8') > maxWriteBytes) {
+          throw new ApiError(413, 'FILE_TOO_LARGE', `Content exceeds the ${maxWriteBytes} byte write limit`)
+        }
+        // Saving a binary file through a text editor would corrupt it
+        const existing = await fs.stat(absPath).catch(() => null)
+        if (looksBinary(content) || (existing?.isFile() && await isBinaryFile(absPath))) {
+          throw new ApiError(415, 'BINARY_FILE', 'Refusing to write a binary file')
+        }
+
+        // Refuse to clobber changes made on disk since the editor read the file
+        if (baseVersion !== undefined && baseVersion !== await readFileVersion(absPath)) {
+          throw new ApiError(409, 'VERSION_CONFLICT', 'File changed on disk since it was opened')
+        }
+
+        await fs.writeFile(absPath, content, 'utf-8')
+        const written = await fs.stat(absPath)
+        sendJson(res, {
+          success: true,
+          path: absPath,
+          version: computeFileVersion(written.mtimeMs, content),
+        })
+      } catch (err) {
+        sendApiError(res, err)
+      }
+    })
+  })
+}
+
+const SSE_HEARTBEAT_MS = 30000
+
+// Repository API plugin for loading the real repo structure
+function repoApiPlugin(): Plugin {
+  return createApiPlugin('repo-api', (middlewares) => {
+    rememberStartupRepo()
+
+    // Switch every API over to another repository on disk
+    middlewares.use('/api/repo/open', async (req, res) => {
+      if (!requireMethod(req, res, 'POST')) return
+
+      try {
+        const { repoPath } = await readJsonBody<{ repoPath: string }>(req, MAX_SMALL_BODY_BYTES)
+        if (!repoPath) {
+          throw new ApiError(400, 'INVALID_REQUEST', 'repoPath is required')
+        }
+
+        const root = await setRepoRoot(repoPath)
+        sendJson(res, { path: root })
+      } catch (err) {
+        sendApiError(res, err)
+      }
+    })
+
+    // Roots opened before, most recent first
+    middlewares.use('/api/repo/recent', async (req, res) => {
+      if (!requireMethod(req, res, 'GET')) return
+
+      try {
+        sendJson(res, { current: getRepoRoot(), recent: await readRecentRepos() })
+      } catch (err) {
+        sendApiError(res, err)
+      }
+    })
+
+    // Full file tree of the project directory
+    middlewares.use('/api/repo/tree', async (req, res) => {
+      if (!requireMethod(req, res, 'GET')) return
+
+      try {
+        const root = await buildRepoTree(getRepoRoot())
+        sendJson(res, { root })
+      } catch (err) {
+        sendError(res, 500, (err as Error).message)
+      }
+    })
+
+    // Server-sent events stream of tree changes made on disk
+    middlewares.use('/api/repo/events', (req, res) => {
+      if (!requireMethod(req, res, 'GET')) return
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
       })
+      res.write(': connected\n\n')
 
-      // Write file endpoint
-      server.middlewares.use('/api/file/write', async (req, res) => {
-        if (req.method !== 'POST') {
-          res.statusCode = 405
-          res.end(JSON.stringify({ error: 'Method not allowed' }))
-          return
+      const unsubscribe = subscribeToRepoChanges((changes) => {
+        res.write(`data: ${JSON.stringify({ changes })}\n\n`)
+      })
+      // Comment lines keep proxies from timing out an idle stream
+      const heartbeat = setInterval(() => res.write(': ping\n\n'), SSE_HEARTBEAT_MS)
+
+      req.on('close', () => {
+        clearInterval(heartbeat)
+        unsubscribe()
+      })
+    })
+
+    // Branch, HEAD, remotes and working-tree state
+    middlewares.use('/api/repo/info', async (req, res) => {
+      if (!requireMethod(req, res, 'GET')) return
+
+      try {
+        const info = await readRepoInfo(getRepoRoot())
+        sendJson(res, { info })
+      } catch (err) {
+        sendError(res, 500, (err as Error).message)
+      }
+    })
+
+    // Solar systems pinned in place in this repository's galaxy
+    middlewares.use('/api/repo/pins', async (req, res) => {
+      if (!requireMethod(req, res, 'GET')) return
+
+      try {
+        sendJson(res, { pins: await readPinnedSystems(getRepoRoot()) })
+      } catch (err) {
+        sendApiError(res, err)
+      }
+    })
+
+    // Pin a system at a position, or unpin it with a null position
+    middlewares.use('/api/repo/pin', async (req, res) => {
+      if (!requireMethod(req, res, 'POST')) return
+
+      try {
+        const { path: systemPath, position } = await readJsonBody<{
+          path: string
+          position: [number, number, number] | null
+        }>(req, MAX_SMALL_BODY_BYTES)
+        if (typeof systemPath !== 'string' || !systemPath.startsWith('/')) {
+          throw new ApiError(400, 'INVALID_REQUEST', 'path must be a repository path starting with "/"')
+        }
+        if (position !== null && !isPinPosition(position)) {
+          throw new ApiError(400, 'INVALID_REQUEST', 'position must be [x, y, z] or null')
+        }
+
+        const pins = await savePinnedSystem(getRepoRoot(), systemPath, position)
+        sendJson(res, { pins })
+      } catch (err) {
+        sendApiError(res, err)
+      }
+    })
+
+    // Which files import which, for dependency lanes
+    middlewares.use('/api/repo/imports', async (req, res) => {
+      if (!requireMethod(req, res, 'GET')) return
+
+      try {
+        const edges = await readImportGraph(getRepoRoot())
+        sendJson(res, { edges })
+      } catch (err) {
+        sendApiError(res, err)
+      }
+    })
+
+    // Line counts, complexity, commits and authors per file, for mapping onto planets
+    middlewares.use('/api/repo/metrics', async (req, res) => {
+      if (!requireMethod(req, res, 'GET')) return
+
+      try {
+        const metrics = await readFileMetrics(getRepoRoot())
+        sendJson(res, { metrics })
+      } catch (err) {
+        sendApiError(res, err)
+      }
+    })
+
+    // Contents of a collapsed (ignored) folder, one level deep
+    middlewares.use('/api/repo/expand', async (req, res) => {
+      if (!requireMethod(req, res, 'GET')) return
+
+      try {
+        const folderPath = getQueryParams(req).get('path') ?? ''
+        const projectRoot = getRepoRoot()
+        // Validates containment; the walk itself uses the repo path
+        await resolveRepoPath(projectRoot, folderPath)
+
+        const folder = await expandRepoFolder(projectRoot, folderPath)
+        sendJson(res, { folder })
+      } catch (err) {
+        sendApiError(res, err)
+      }
+    })
+  })
+}
+
+// Commits returned per page when the client doesn't ask for a size
+const DEFAULT_COMMIT_PAGE_SIZE = 200
+const MAX_COMMIT_PAGE_SIZE = 1000
+
+// Git API plugin for reading repository history
+function gitApiPlugin(): Plugin {
+  return createApiPlugin('git-api', (middlewares) => {
+    // Paged commit history, newest first
+    middlewares.use('/api/git/log', async (req, res) => {
+      if (!requireMethod(req, res, 'GET')) return
+
+      const params = getQueryParams(req)
+      const skip = Math.max(parseInt(params.get('skip') || '0', 10) || 0, 0)
+      const limit = Math.min(
+        Math.max(parseInt(params.get('limit') || '', 10) || DEFAULT_COMMIT_PAGE_SIZE, 1),
+        MAX_COMMIT_PAGE_SIZE
+      )
+
+      try {
+        const page = await readCommitPage(getRepoRoot(), skip, limit)
+        sendJson(res, page)
+      } catch (err) {
+        sendError(res, 500, (err as Error).message)
+      }
+    })
+
+    // Every committed file at a revision, for time travel through history
+    middlewares.use('/api/git/tree', async (req, res) => {
+      if (!requireMethod(req, res, 'GET')) return
+
+      try {
+        const revision = getQueryParams(req).get('rev') || 'HEAD'
+        const projectRoot = getRepoRoot()
+        const tree = await readTreeAtRevision(
+          projectRoot,
+          revision,
+          path.basename(projectRoot),
+          await loadTreeRules(projectRoot)
+        )
+        sendJson(res, tree)
+      } catch (err) {
+        sendApiError(res, err)
+      }
+    })
+
+    // Files changed between two revisions, for compare mode
+    middlewares.use('/api/git/compare', async (req, res) => {
+      if (!requireMethod(req, res, 'GET')) return
+
+      try {
+        const params = getQueryParams(req)
+        const projectRoot = getRepoRoot()
+        const [base, head] = await Promise.all([
+          resolveCommit(projectRoot, params.get('base') || ''),
+          resolveCommit(projectRoot, params.get('head') || 'HEAD'),
+        ])
+
+        const files = await readRevisionDiff(projectRoot, base, head)
+        sendJson(res, { base, head, files })
+      } catch (err) {
+        sendApiError(res, err)
+      }
+    })
+
+    // Local and remote branches for the branch picker
+    middlewares.use('/api/git/branches', async (req, res) => {
+      if (!requireMethod(req, res, 'GET')) return
+
+      try {
+        const branches = await listBranches(getRepoRoot())
+        sendJson(res, { branches })
+      } catch (err) {
+        sendApiError(res, err)
+      }
+    })
+
+    // Switch branches; refuses while tracked files have uncommitted changes
+    middlewares.use('/api/git/checkout', async (req, res) => {
+      if (!requireMethod(req, res, 'POST')) return
+
+      try {
+        const { branch } = await readJsonBody<{ branch: string }>(req, MAX_SMALL_BODY_BYTES)
+        if (typeof branch !== 'string' || !branch) {
+          throw new ApiError(400, 'INVALID_REQUEST', 'A branch name is required')
         }
 
-        let body = ''
-        req.on('data', chunk => { body += chunk })
-        req.on('end', async () => {
-          try {
-            const { filePath, content } = JSON.parse(body)
-
-            if (!filePath || content === undefined) {
-              res.statusCode = 400
-              res.end(JSON.stringify({ error: 'filePath and content are required' }))
-              return
-            }
-
-            // Resolve path relative to project root
-            // Paths like "/src/App.tsx" should map to "<project>/src/App.tsx"
-            const projectRoot = process.cwd()
-            const resolvedPath = filePath.startsWith('/')
-              ? path.join(projectRoot, filePath)
-              : path.resolve(filePath)
-
-            if (!resolvedPath.startsWith(projectRoot)) {
-              res.statusCode = 403
-              res.end(JSON.stringify({ error: 'Access denied: Cannot write files outside project' }))
-              return
-            }
-
-            await fs.writeFile(resolvedPath, content, 'utf-8')
-            res.setHeader('Content-Type', 'application/json')
-            res.end(JSON.stringify({ success: true, path: resolvedPath }))
-          } catch (err) {
-            const error = err as Error
-            res.statusCode = 500
-            res.end(JSON.stringify({ error: error.message }))
+        const projectRoot = getRepoRoot()
+        await checkoutBranch(projectRoot, branch)
+        sendJson(res, { info: await readRepoInfo(projectRoot) })
+      } catch (err) {
+        sendApiError(res, err)
+      }
+    })
+
+    // Staged, unstaged and untracked files
+    middlewares.use('/api/git/status', async (req, res) => {
+      if (!requireMethod(req, res, 'GET')) return
+
+      try {
+        const files = await readWorkingStatus(getRepoRoot())
+        sendJson(res, { files })
+      } catch (err) {
+        sendApiError(res, err)
+      }
+    })
+
+    // Add paths to (or take them out of) the index; answers with the new status
+    const installIndexRoute = (route: string, update: (repoDir: string, relativePaths: string[]) => Promise<void>) => {
+      middlewares.use(route, async (req, res) => {
+        if (!requireMethod(req, res, 'POST')) return
+
+        try {
+          const { paths } = await readJsonBody<{ paths: string[] }>(req, MAX_SMALL_BODY_BYTES)
+          if (!Array.isArray(paths) || paths.length === 0) {
+            throw new ApiError(400, 'INVALID_REQUEST', 'paths must be a non-empty array')
           }
-        })
+
+          const projectRoot = getRepoRoot()
+          // Git stages a symlink itself, so only the link's own location has to be inside
+          const resolved = await Promise.all(paths.map((repoPath) => resolveLexicalRepoPath(projectRoot, repoPath)))
+          await update(projectRoot, resolved.map(({ relativePath }) => relativePath))
+
+          const files = await readWorkingStatus(projectRoot)
+          sendJson(res, { files })
+        } catch (err) {
+          sendApiError(res, err)
+        }
       })
     }
-  }
+    installIndexRoute('/api/git/stage', stagePaths)
+    installIndexRoute('/api/git/unstage', unstagePaths)
+
+    // Commit the index with a message and optional author override
+    middlewares.use('/api/git/commit', async (req, res) => {
+      if (!requireMethod(req, res, 'POST')) return
+
+      try {
+        const { message, authorName, authorEmail } = await readJsonBody<{
+          message: string
+          authorName?: string
+          authorEmail?: string
+        }>(req, MAX_SMALL_BODY_BYTES)
+        if (typeof message !== 'string') {
+          throw new ApiError(400, 'INVALID_REQUEST', 'A commit message is required')
+        }
+
+        const author = authorName && authorEmail ? { name: authorName, email: authorEmail } : undefined
+        const commit = await commitStaged(getRepoRoot(), message, author)
+        sendJson(res, { commit })
+      } catch (err) {
+        sendApiError(res, err)
+      }
+    })
+  })
 }
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), fileApiPlugin()],
+  plugins: [react(), fileApiPlugin(), repoApiPlugin(), gitApiPlugin()],
 })